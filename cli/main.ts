@@ -0,0 +1,282 @@
+#!/usr/bin/env node
+// A command line interface to the custom resource handler, to create,
+// update, delete or inspect a user and database outside CloudFormation,
+// for example for a local development database, to adopt a legacy
+// database, or to fix one by hand. See USAGE. The functions it runs are
+// exported from here as well, for use from code.
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { createUserAndDatabase, deleteUserAndDatabase, inspectUserAndDatabase, Response, updateUserAndDatabase } from '../handler/main';
+
+export { createUserAndDatabase, deleteUserAndDatabase, inspectUserAndDatabase, Response, updateUserAndDatabase };
+
+const USAGE = `Usage: pg-user-and-database <create|update|delete|inspect> [options]
+
+Connection:
+  --host HOST                     Defaults to $PGHOST
+  --port PORT                     Defaults to $PGPORT, or 5432
+  --ssl-mode MODE                 verify-full (the default), require or disable
+  --ssl-ca-file PATH              CA certificates to verify against, rather
+                                  than the RDS CA bundle
+
+Credentials of the admin user:
+  --admin-username USERNAME       Defaults to $PGUSER
+  --admin-credentials SOURCE      Defaults to the password in $PGPASSWORD
+
+Credentials of the user:
+  --authentication METHOD         Password (the default) or Iam
+  --username USERNAME             Required with Iam
+  --user-credentials SOURCE       Required with Password
+
+  SOURCE is secretsmanager:ARN, ssm:NAME, env:VARIABLE or file:PATH, with
+  JSON of a username and password, or only the password if the username
+  is given. There are no options for the passwords themselves, as other
+  users of the machine can see a process's arguments.
+
+Output:
+  --json                          Print the result as JSON
+  --quiet                         Don't log to stderr
+
+Other options:
+  --id ID                         For update and delete, the ID printed by
+                                  create, which records anything adopted.
+                                  Defaults to one for the options.
+  --old-properties JSON           For update, the properties of the last
+                                  create or update, to find what has been
+                                  removed
+
+Any other --some-option VALUE sets the custom resource property someOption,
+for example --database-name app, --on-create-if-exists Adopt, --plan or
+--extensions '["pgcrypto"]'. The onDelete, onCreateIfExists and onUpdate
+options default as they do for PostgresUserAndDatabase.
+--write-connection-details needs --user-credentials secretsmanager:ARN, as
+they are written to that secret.
+`;
+
+const COMMANDS = ['create', 'update', 'delete', 'inspect'] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+const isCommand = (value: string): value is Command => {
+    return (COMMANDS as readonly string[]).includes(value);
+};
+
+// Options of the CLI itself, rather than properties
+const CLI_OPTIONS = ['host', 'port', 'ssl-mode', 'ssl-ca-file', 'admin-username', 'admin-credentials', 'authentication', 'username', 'user-credentials', 'id', 'old-properties'];
+const CLI_FLAGS = ['json', 'quiet', 'help'];
+
+interface Args {
+    command?: string;
+    options: Record<string, string>;
+}
+
+// Options are --name value or --name=value. Any that is followed by
+// another option, or by nothing, is true, as for --plan.
+export const parseArgs = (argv: string[]): Args => {
+    const args: Args = { options: {} };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            if (args.command !== undefined) {
+                throw new Error(`Unexpected argument ${arg}`);
+            }
+            args.command = arg;
+            continue;
+        }
+
+        const equalsIndex = arg.indexOf('=');
+        if (equalsIndex !== -1) {
+            args.options[arg.slice(2, equalsIndex)] = arg.slice(equalsIndex + 1);
+        } else if (CLI_FLAGS.includes(arg.slice(2)) || i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+            args.options[arg.slice(2)] = 'true';
+        } else {
+            args.options[arg.slice(2)] = argv[++i];
+        }
+    }
+    return args;
+};
+
+// For example on-create-if-exists to onCreateIfExists
+const toPropertyName = (option: string): string => {
+    return option.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+};
+
+interface CredentialsProperties {
+    secretArn: string;
+    credentialsFormat: string;
+}
+
+// Passes credentials to the handler in an environment variable of this
+// process (see credentialsFormatSchema), so that they aren't in the
+// properties, which are logged
+const getEnvironmentCredentialsProperties = (name: string, value: string, username: string | undefined): CredentialsProperties => {
+    const variable = `PG_USER_AND_DATABASE_${name.toUpperCase()}_CREDENTIALS`;
+    process.env[variable] = value;
+    return {
+        secretArn: variable,
+        credentialsFormat: JSON.stringify({ store: 'Environment', ...(username !== undefined ? { plaintextUsername: username } : {}) }),
+    };
+};
+
+// The dbSecretArn and dbCredentialsFormat properties (or userSecretArn
+// and userCredentialsFormat) for the credentials from the given SOURCE,
+// or otherwise the username and password (from PGUSER and PGPASSWORD)
+const getCredentialsProperties = (name: string, source: string | undefined, username: string | undefined, password: string | undefined): CredentialsProperties => {
+    if (source === undefined) {
+        if (username === undefined || password === undefined) {
+            throw new Error(`Missing --${name}-credentials, or --${name}-username (or PGUSER) and PGPASSWORD`);
+        }
+        return getEnvironmentCredentialsProperties(name, password, username);
+    }
+
+    const match = /^(secretsmanager|ssm|env|file):(.+)$/.exec(source);
+    if (!match) {
+        throw new Error(`Invalid --${name}-credentials ${source}: must be secretsmanager:ARN, ssm:NAME, env:VARIABLE or file:PATH`);
+    }
+    const [, kind, location] = match;
+    const plaintextUsername = username !== undefined ? { plaintextUsername: username } : {};
+    if (kind === 'secretsmanager') {
+        return { secretArn: location, credentialsFormat: JSON.stringify({ store: 'SecretsManager', ...plaintextUsername }) };
+    } else if (kind === 'ssm') {
+        return { secretArn: location, credentialsFormat: JSON.stringify({ store: 'SsmParameter', ...plaintextUsername }) };
+    } else if (kind === 'env') {
+        return { secretArn: location, credentialsFormat: JSON.stringify({ store: 'Environment', ...plaintextUsername }) };
+    }
+    // Without the newline a password file usually ends with
+    return getEnvironmentCredentialsProperties(name, fs.readFileSync(location, 'utf8').replace(/\r?\n$/, ''), username);
+};
+
+export const getProperties = (options: Record<string, string>): Record<string, string> => {
+    const host = options['host'] ?? process.env['PGHOST'];
+    if (!host) {
+        throw new Error('Missing --host, or PGHOST');
+    }
+
+    const admin = getCredentialsProperties('admin', options['admin-credentials'], options['admin-username'] ?? process.env['PGUSER'], process.env['PGPASSWORD']);
+    const properties: Record<string, string> = {
+        dbClusterHostname: host,
+        dbClusterPort: options['port'] ?? process.env['PGPORT'] ?? '5432',
+        dbSecretArn: admin.secretArn,
+        dbCredentialsFormat: admin.credentialsFormat,
+        onDelete: 'Delete',
+        onCreateIfExists: 'Fail',
+        onUpdateIfUserDoesNotExist: 'Ignore',
+        onUpdateIfDatabaseDoesNotExist: 'Ignore',
+        onUpdateSetUserPassword: 'Never',
+        onUpdateSetUserPermissions: 'Never',
+        onUpdateSetDatabaseOwnership: 'Never',
+    };
+
+    if (options['ssl-mode'] || options['ssl-ca-file']) {
+        properties.ssl = JSON.stringify({
+            mode: options['ssl-mode'] ?? 'verify-full',
+            ...(options['ssl-ca-file'] ? { ca: fs.readFileSync(options['ssl-ca-file'], 'utf8') } : {}),
+        });
+    }
+
+    // The handler only uses the username property with Iam, where there
+    // are no credentials to take it from
+    const authentication = options['authentication'] ?? 'Password';
+    if (authentication === 'Iam') {
+        if (options['username'] === undefined) {
+            throw new Error('Missing --username, which is required with --authentication Iam');
+        }
+        if (options['user-credentials'] !== undefined) {
+            throw new Error('Cannot use --user-credentials with --authentication Iam');
+        }
+        properties.authentication = authentication;
+        properties.username = options['username'];
+    } else if (authentication === 'Password') {
+        if (options['user-credentials'] === undefined) {
+            throw new Error('Missing --user-credentials');
+        }
+        const user = getCredentialsProperties('user', options['user-credentials'], options['username'], undefined);
+        properties.userSecretArn = user.secretArn;
+        properties.userCredentialsFormat = user.credentialsFormat;
+    } else {
+        throw new Error(`Invalid --authentication ${authentication}: must be Password or Iam`);
+    }
+
+    // Which are always written to the user secret in Secrets Manager
+    if (options['write-connection-details'] === 'true' && !options['user-credentials']?.startsWith('secretsmanager:')) {
+        throw new Error('Can only use --write-connection-details with --user-credentials secretsmanager:ARN');
+    }
+
+    for (const [name, value] of Object.entries(options)) {
+        if (!CLI_OPTIONS.includes(name) && !CLI_FLAGS.includes(name)) {
+            properties[toPropertyName(name)] = value;
+        }
+    }
+    return properties;
+};
+
+const formatText = (command: Command, response: Response): string => {
+    const { Plan: plan, ...data } = response.Data ?? {};
+    const lines = [`${command}${plan !== undefined ? ' (plan)' : ''}: ${response.PhysicalResourceId}`, ...Object.entries(data).map(([key, value]) => `${key}: ${value}`)];
+    if (plan !== undefined) {
+        lines.push('Plan:', ...(JSON.parse(plan) as string[]).map((statement) => `  ${statement}`));
+    }
+    return `${lines.join('\n')}\n`;
+};
+
+export const run = async (argv: string[]): Promise<void> => {
+    const { command, options } = parseArgs(argv);
+    if (command === undefined || options['help'] === 'true') {
+        process.stdout.write(USAGE);
+        if (command === undefined && options['help'] !== 'true') {
+            process.exitCode = 1;
+        }
+        return;
+    }
+    if (!isCommand(command)) {
+        throw new Error(`Unknown command ${command}, must be one of ${COMMANDS.join(', ')}`);
+    }
+
+    // The handler logs with console.log, which would mix its logs into
+    // the output, so redirect it until the handler is done
+    const log = console.log;
+    console.log = options['quiet'] === 'true' ? (): void => undefined : console.error;
+    let response: Response;
+    try {
+        const properties = getProperties(options);
+        if (command === 'create') {
+            response = await createUserAndDatabase(properties);
+        } else if (command === 'update') {
+            response = await updateUserAndDatabase(properties, options['id'], options['old-properties'] ? JSON.parse(options['old-properties']) : undefined);
+        } else if (command === 'delete') {
+            response = await deleteUserAndDatabase(properties, options['id']);
+        } else {
+            response = await inspectUserAndDatabase(properties);
+        }
+    } finally {
+        console.log = log;
+    }
+
+    if (options['json'] === 'true') {
+        process.stdout.write(`${JSON.stringify({ physicalResourceId: response.PhysicalResourceId, data: response.Data ?? {} }, null, 4)}\n`);
+    } else {
+        process.stdout.write(formatText(command, response));
+    }
+};
+
+// Invalid properties are reported one per line, rather than as JSON
+const formatError = (e: unknown): string => {
+    if (e instanceof z.ZodError) {
+        return e.issues.map((issue) => `${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`).join('\n');
+    }
+    return e instanceof Error ? e.message : String(e);
+};
+
+export const main = async (argv: string[]): Promise<void> => {
+    try {
+        await run(argv);
+    } catch (e) {
+        process.stderr.write(`Error: ${formatError(e)}\n`);
+        process.exitCode = 1;
+    }
+};
+
+if (require.main === module) {
+    main(process.argv.slice(2));
+}
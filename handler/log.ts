@@ -0,0 +1,4 @@
+// Log function that takes a message and optionally additional data, writes logs as JSON
+export const log = (message: string, data?: unknown): void => {
+    console.log(JSON.stringify({ message, data }));
+};
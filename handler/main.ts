@@ -1,174 +1,252 @@
 // A handler for the custom resource. Is called with the following properties from Cloudformation:
-// - dbClusterHostname: hostname of the RDS cluster
-// - dbClusterPort: port of the RDS cluster
-// - dbSecretArn: ARN of the RDS cluster secret
-// - userSecretArn: ARN of the user secret
-// - username: username of the user
+// - dbClusterHostname: hostname of the RDS cluster, instance or proxy
+// - dbClusterPort: port of the RDS cluster, instance or proxy
+// - dbSecretArn: ARN of the RDS cluster secret (or SSM parameter)
+// - dbCredentialsFormat: optional JSON format of dbSecretArn (see
+//   credentialsFormatSchema)
+// - userSecretArn: ARN of the user secret, unless authentication is Iam
+// - userCredentialsFormat: optional JSON format of userSecretArn
+// - username: username of the user, if authentication is Iam
+// - authentication: optional, Password or Iam
+// - ssl: optional JSON TLS settings, defaulting to verify-full
+// - connectionTimeoutSeconds: optional, how long to keep retrying to
+//   connect for
+// - dataApiResourceArn: optional, the ARN of the cluster to run queries on
+//   with the RDS Data API, rather than connecting to it
 // - databaseName: name of the database
+// - databaseOptions: optional JSON options for CREATE DATABASE
+// - extensions: optional JSON list of extensions to install in the database
+// - initScripts: optional JSON list of SQL scripts to run once in the
+//   database (see runInitScripts)
+// - schemas: optional JSON list of schemas to create in the database
+//   (see reconcileSchemas)
+// - revokePublicAccess: optional, if true revokes the access PUBLIC has
+//   to the database by default (see revokePublicAccess)
+// - userAttributes: optional JSON attributes of the user (see setRoleAttributes)
+// - userSettings: optional JSON settings of the user (see setRoleSettings)
+// - writeConnectionDetails: optional, if true writes the connection details
+//   to the user secret (see writeConnectionDetails)
+//
+// - onUpdateInspectDrift: optional, Always compares the user and database
+//   to the properties on update (see inspectDrift), as is always done
+//   when adopting them on create
+// - failOnDrift: optional, if true fails rather than update or adopt a
+//   user or database that doesn't match the properties, and implies
+//   onUpdateInspectDrift Always
+// - plan: optional, if true only works out the statements that would be
+//   run (see Plan), rather than running them, and fails an update (see
+//   failPlannedUpdate)
+//
+// Returns the connection details (see getConnectionData) and any drift
+// as attributes, along with the installed extensions if extensions is
+// set, and the planned statements if plan is set (see getPlanResponse).
 //
 // With those, should connect to the RDS cluster and create the user
 // and database. The user should be granted CREATEDB and LOGIN access,
 // and that user should then create the database.
+//
+// If resourceType is Role, instead creates an additional login role
+// with access to an existing database (see PostgresDatabaseRole). If
+// engine is Mysql, instead creates the user and database in MySQL (see
+// handleMysqlEvent).
+//
+// The create, update and delete of the user and database are also
+// exported, for use outside CloudFormation (see createUserAndDatabase).
 
-import * as pg from 'pg';
+import * as crypto from 'crypto';
+import * as s3 from '@aws-sdk/client-s3';
 import * as secretsmanager from '@aws-sdk/client-secrets-manager';
 import { z } from 'zod';
-
-interface Response {
+import { ALTERNATE_USERNAME_SUFFIX, MAX_IDENTIFIER_BYTES, validateDatabaseName, validateMysqlDatabaseName, validateMysqlUsername, validateUsername } from '../names';
+import { log } from './log';
+import { isMysqlError, LazyMysqlClientFromSecretsManager, MYSQL_USER_HOST, MysqlErrorCodes, quoteMysqlAccount, quoteMysqlIdentifier, quoteMysqlLiteral } from './mysql';
+import {
+    credentialsFormatSchema,
+    DbCredentials,
+    formatConnectionUri,
+    isPostgresError,
+    isRetryableConnectionError,
+    LazyPostgresClientFromSecretsManager,
+    Plan,
+    PostgresErrorCodes,
+    QueryClient,
+    quoteIdentifier,
+    quoteLiteral,
+    roleAttributesSchema,
+    roleSettingsSchema,
+    setRoleAttributes,
+    setRoleSettings,
+    sslSchema,
+} from './postgres';
+
+export interface Response {
     PhysicalResourceId: string;
+    Data?: Record<string, string>;
 }
 
-// Relevant error codes taken from
-// https://www.postgresql.org/docs/current/errcodes-appendix.html
-enum PostgresErrorCodes {
-    DUPLICATE_DATABASE = '42P04',
-    DUPLICATE_OBJECT = '42710',
-    INSUFFICIENT_PRIVILEGE = '42501',
-    AUTHENTICATION_FAILED = '28P01',
-}
-
-interface PostgresError extends Error {
-    code: string;
-}
-
-const isPostgresError = (e: unknown): e is PostgresError => {
-    if (typeof e !== 'object' || e === null) {
-        return false;
-    }
-
-    // Check extends Error
-    if (!('message' in e && 'name' in e)) {
-        return false;
-    }
-
-    // Check has code
-    if (!('code' in e)) {
-        return false;
-    }
-
-    return typeof e.code === 'string';
-};
-
-// Class that lazily creates a Postgres client from a secret ARN,
-// dbClusterHostname, dbClusterPort and databaseName, and caches the client
-interface LazyPostgresClientFromSecretsManagerProps {
-    dbSecretArn: string;
-    dbClusterHostname: string;
-    dbClusterPort: number;
-    databaseName: string;
-}
-
-class LazyPostgresClientFromSecretsManager {
-    private props: LazyPostgresClientFromSecretsManagerProps;
-    private client?: pg.Client;
-    private credentials?: DbCredentials;
-
-    constructor(props: LazyPostgresClientFromSecretsManagerProps) {
-        this.props = props;
-    }
-
-    // Getters for the props
-    get dbSecretArn(): string {
-        return this.props.dbSecretArn;
-    }
-
-    get dbClusterHostname(): string {
-        return this.props.dbClusterHostname;
-    }
-
-    get dbClusterPort(): number {
-        return this.props.dbClusterPort;
-    }
-
-    get databaseName(): string {
-        return this.props.databaseName;
-    }
-
-    async getCredentials(): Promise<DbCredentials> {
-        if (this.credentials) {
-            return this.credentials;
-        }
-
-        const secretsManagerClient = new secretsmanager.SecretsManagerClient({
-            region: process.env['AWS_REGION'],
-        });
-
-        const dbSecret = await secretsManagerClient.send(
-            new secretsmanager.GetSecretValueCommand({
-                SecretId: this.props.dbSecretArn,
+// Passed as a JSON string, as CloudFormation does not reliably preserve
+// empty lists and missing keys in custom resource properties
+const extensionsSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(
+        z.array(
+            z.object({
+                name: z.string(),
+                version: z.string().optional(),
+                schema: z.string().optional(),
             }),
-        );
-
-        const dbSecretJson: unknown = JSON.parse(dbSecret.SecretString ?? '{}');
-
-        const dbSecretJsonSchema = z.object({
-            username: z.string(),
-            password: z.string(),
-        });
-
-        const validatedDbSecretJson = dbSecretJsonSchema.parse(dbSecretJson);
-
-        this.credentials = {
-            username: validatedDbSecretJson.username,
-            password: validatedDbSecretJson.password,
-        };
-
-        return this.credentials;
-    }
-
-    async getClient(): Promise<pg.Client> {
-        if (this.client) {
-            return this.client;
-        }
-
-        if (!this.credentials) {
-            this.credentials = await this.getCredentials();
-        }
-
-        this.client = new pg.Client({
-            host: this.props.dbClusterHostname,
-            port: this.props.dbClusterPort,
-            user: this.credentials.username,
-            password: this.credentials.password,
-            ssl: {
-                rejectUnauthorized: false,
-            },
-            database: this.props.databaseName,
-        });
-
-        await this.client.connect();
-        return this.client;
-    }
-
-    async end(): Promise<void> {
-        if (this.client) {
-            await this.client.end();
-        }
-    }
-}
-
-// Log function that takes a message and optionally additional data, writes logs as JSON
-const log = (message: string, data?: unknown): void => {
-    console.log(JSON.stringify({ message, data }));
-};
+        ),
+    );
+
+type Extension = z.infer<typeof extensionsSchema>[number];
+
+// Each script has either its sql, or the S3 location of an asset with it
+const initScriptsSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(
+        z.array(
+            z.object({
+                name: z.string(),
+                runAs: z.enum(['Owner', 'Admin']),
+                sql: z.string().optional(),
+                s3Bucket: z.string().optional(),
+                s3Key: z.string().optional(),
+            }),
+        ),
+    );
+
+type InitScript = z.infer<typeof initScriptsSchema>[number];
+
+// Schemas owned by the user, each with default privileges for others on
+// what the user creates in it
+const databaseSchemasSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(
+        z.array(
+            z.object({
+                name: z.string(),
+                defaultPrivileges: z
+                    .array(
+                        z.object({
+                            grantee: z.string(),
+                            on: z.enum(['Tables', 'Sequences', 'Functions', 'Types']),
+                            privileges: z.array(z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER', 'USAGE', 'EXECUTE'])).nonempty(),
+                        }),
+                    )
+                    .default([]),
+            }),
+        ),
+    );
+
+type DatabaseSchema = z.infer<typeof databaseSchemasSchema>[number];
+
+const credentialsFormatPropertySchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(credentialsFormatSchema);
+
+const sslPropertySchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(sslSchema);
+
+const userAttributesSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(roleAttributesSchema);
+
+const userSettingsSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(roleSettingsSchema);
+
+const databaseOptionsSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(
+        z.object({
+            encoding: z.string().optional(),
+            lcCollate: z.string().optional(),
+            lcCtype: z.string().optional(),
+            localeProvider: z.enum(['libc', 'icu']).optional(),
+            icuLocale: z.string().optional(),
+            template: z.string().optional(),
+            tablespace: z.string().optional(),
+            connectionLimit: z.number().int().min(-1).optional(),
+            allowConnections: z.boolean().optional(),
+        }),
+    );
+
+type DatabaseOptions = z.infer<typeof databaseOptionsSchema>;
+
+// Options that can only be set by CREATE DATABASE
+const IMMUTABLE_DATABASE_OPTIONS = ['encoding', 'lcCollate', 'lcCtype', 'localeProvider', 'icuLocale', 'template'] as const;
+
+// How long to keep retrying to connect for, which is less than the
+// handler's default timeout of 30 seconds
+const connectionTimeoutSecondsSchema = z.string().regex(/^\d+$/).default('20').transform(Number);
+
+// A new Plan for each event, shared by all of the clients that handle it
+const planPropertySchema = z.enum(['true', 'false']).transform((value) => (value === 'true' ? new Plan() : undefined));
 
 const customResourcePropertiesSchema = z.object({
     dbClusterHostname: z.string(),
     dbClusterPort: z.string().regex(/^\d+$/).transform(Number),
     dbSecretArn: z.string(),
-    userSecretArn: z.string(),
+    dbCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    ssl: sslPropertySchema.optional(),
+    connectionTimeoutSeconds: connectionTimeoutSecondsSchema,
+    dataApiResourceArn: z.string().optional(),
+    userSecretArn: z.string().optional(),
+    userCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    username: z.string().optional(),
+    authentication: z.enum(['Password', 'Iam']).optional(),
     databaseName: z.string(),
-    onDelete: z.enum(['Delete', 'Retain']),
+    databaseOptions: databaseOptionsSchema.optional(),
+    onDelete: z.enum(['Delete', 'Retain', 'DeleteForce', 'DeleteIfEmpty', 'Archive']),
     onCreateIfExists: z.enum(['Fail', 'Adopt', 'DeleteAndRecreate']),
     onUpdateIfUserDoesNotExist: z.enum(['Ignore', 'Create']),
     onUpdateIfDatabaseDoesNotExist: z.enum(['Ignore', 'Create']),
     onUpdateSetUserPassword: z.enum(['Always', 'Never']),
     onUpdateSetUserPermissions: z.enum(['Always', 'Never']),
     onUpdateSetDatabaseOwnership: z.enum(['Always', 'Never']),
+    extensions: extensionsSchema.optional(),
+    initScripts: initScriptsSchema.optional(),
+    schemas: databaseSchemasSchema.optional(),
+    revokePublicAccess: z.enum(['true', 'false']).optional(),
+    onUpdateDropRemovedExtensions: z.enum(['Always', 'Never']).optional(),
+    onUpdateRename: z.enum(['Fail', 'Rename', 'TerminateSessionsAndRename']).optional(),
+    userRotationStrategy: z.enum(['SingleUser', 'AlternatingUsers']).optional(),
+    userAttributes: userAttributesSchema.optional(),
+    userSettings: userSettingsSchema.optional(),
+    writeConnectionDetails: z.enum(['true', 'false']).optional(),
+    onUpdateInspectDrift: z.enum(['Always', 'Never']).optional(),
+    failOnDrift: z.enum(['true', 'false']).optional(),
+    plan: planPropertySchema.optional(),
 });
 
 type CustomResourceProperties = z.infer<typeof customResourcePropertiesSchema>;
 
+// Only the properties needed to work out what has changed in an update,
+// as properties from an older version of this construct may not match
+// the current schema
+const oldCustomResourcePropertiesSchema = z.object({
+    authentication: z.enum(['Password', 'Iam']).optional(),
+    dbClusterHostname: z.string().optional(),
+    databaseName: z.string().optional(),
+    databaseOptions: databaseOptionsSchema.optional(),
+    extensions: extensionsSchema.optional(),
+    userAttributes: userAttributesSchema.optional(),
+    userSettings: userSettingsSchema.optional(),
+    schemas: databaseSchemasSchema.optional(),
+    revokePublicAccess: z.enum(['true', 'false']).optional(),
+});
+
+type OldCustomResourceProperties = z.infer<typeof oldCustomResourcePropertiesSchema>;
+
 interface CreateEvent {
     RequestType: 'Create';
     ResourceProperties: CustomResourceProperties;
@@ -178,6 +256,7 @@ interface UpdateEvent {
     RequestType: 'Update';
     PhysicalResourceId: string;
     ResourceProperties: CustomResourceProperties;
+    OldResourceProperties: OldCustomResourceProperties;
 }
 
 interface DeleteEvent {
@@ -188,11 +267,6 @@ interface DeleteEvent {
 
 type Event = CreateEvent | UpdateEvent | DeleteEvent;
 
-interface DbCredentials {
-    username: string;
-    password: string;
-}
-
 const decodeEvent = (event: unknown): Event => {
     const eventSchema = z.object({
         RequestType: z.enum(['Create', 'Update', 'Delete']),
@@ -213,6 +287,7 @@ const decodeEvent = (event: unknown): Event => {
         const updateEventSchema = eventSchema.extend({
             PhysicalResourceId: z.string(),
             ResourceProperties: customResourcePropertiesSchema,
+            OldResourceProperties: oldCustomResourcePropertiesSchema,
         });
         return {
             ...updateEventSchema.parse(event),
@@ -231,241 +306,2315 @@ const decodeEvent = (event: unknown): Event => {
     throw new Error('Invalid event type');
 };
 
-const handleCreate = async (event: CreateEvent): Promise<Response> => {
-    log('Handling create');
-    const adminClientManager = new LazyPostgresClientFromSecretsManager({
-        dbSecretArn: event.ResourceProperties.dbSecretArn,
-        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
-        dbClusterPort: event.ResourceProperties.dbClusterPort,
-        databaseName: 'postgres',
-    });
-    const userClientManager = new LazyPostgresClientFromSecretsManager({
-        dbSecretArn: event.ResourceProperties.userSecretArn,
-        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
-        dbClusterPort: event.ResourceProperties.dbClusterPort,
-        databaseName: 'postgres',
-    });
+interface InstalledExtension {
+    name: string;
+    version: string;
+}
 
-    const userCredentials = await userClientManager.getCredentials();
-    const adminCredentials = await adminClientManager.getCredentials();
+const getInstalledExtensions = async (client: QueryClient): Promise<InstalledExtension[]> => {
+    const result = await client.query<{ extname: string; extversion: string }>('SELECT extname, extversion FROM pg_extension ORDER BY extname;');
+    return result.rows.map((row) => ({ name: row.extname, version: row.extversion }));
+};
 
-    if (userCredentials.username === adminCredentials.username) {
-        throw new Error('Cannot create user with same name as the admin user');
+// Install the given extensions, updating any that are pinned to a
+// version other than the one installed, and drop those named in
+// extensionsToDrop. The client must be connected to the database the
+// extensions are for, as a user that can create them.
+const reconcileExtensions = async (client: QueryClient, extensions: Extension[], extensionsToDrop: string[]): Promise<InstalledExtension[]> => {
+    for (const name of extensionsToDrop) {
+        log('Dropping extension', { name });
+        await client.query(`DROP EXTENSION IF EXISTS ${quoteIdentifier(name)};`);
     }
 
-    const adminClient = await adminClientManager.getClient();
+    const installedExtensions = await getInstalledExtensions(client);
+
+    for (const extension of extensions) {
+        const installedExtension = installedExtensions.find((installed) => installed.name === extension.name);
+        if (!installedExtension) {
+            log('Creating extension', extension);
+            const schemaClause = extension.schema ? ` SCHEMA ${quoteIdentifier(extension.schema)}` : '';
+            const versionClause = extension.version ? ` VERSION ${quoteLiteral(extension.version)}` : '';
+            await client.query(`CREATE EXTENSION IF NOT EXISTS ${quoteIdentifier(extension.name)}${schemaClause}${versionClause};`);
+        } else if (extension.version && extension.version !== installedExtension.version) {
+            log('Updating extension', { ...extension, installedVersion: installedExtension.version });
+            await client.query(`ALTER EXTENSION ${quoteIdentifier(extension.name)} UPDATE TO ${quoteLiteral(extension.version)};`);
+        } else {
+            log('Extension already installed', installedExtension);
+        }
+    }
 
-    log('Creating database', {
-        databaseName: event.ResourceProperties.databaseName,
-        username: userCredentials.username,
-        onCreateIfExists: event.ResourceProperties.onCreateIfExists,
-    });
+    return await getInstalledExtensions(client);
+};
 
-    const createUserQuery = `CREATE USER "${userCredentials.username}" WITH PASSWORD '${userCredentials.password}' CREATEDB LOGIN;`;
+const formatExtensionsData = (extensions: InstalledExtension[]): Record<string, string> => {
+    return {
+        Extensions: JSON.stringify(extensions),
+    };
+};
 
-    try {
-        await adminClient.query(createUserQuery);
-    } catch (e) {
-        if (!isPostgresError(e)) {
-            throw e;
-        }
+const getConnectionData = async (client: QueryClient, properties: CustomResourceProperties, username: string): Promise<Record<string, string>> => {
+    const result = await client.query<{ oid: string }>('SELECT oid::text AS oid FROM pg_database WHERE datname = $1;', [properties.databaseName]);
+    const serverVersionResult = await client.query<{ server_version: string }>('SHOW server_version;');
+    return {
+        DatabaseName: properties.databaseName,
+        Username: username,
+        Host: properties.dbClusterHostname,
+        Port: String(properties.dbClusterPort),
+        // Empty if the database doesn't exist, which is only possible on
+        // update with onUpdateIfDatabaseDoesNotExist set to Ignore
+        DatabaseOid: result.rows[0]?.oid ?? '',
+        ServerVersion: serverVersionResult.rows[0].server_version,
+    };
+};
 
-        if (event.ResourceProperties.onCreateIfExists === 'Adopt' && e.code === PostgresErrorCodes.DUPLICATE_OBJECT) {
-            // User already exists, so we'll just adopt it. Set the password to the new value and grant CREATEDB and LOGIN
-            await adminClient.query(`ALTER USER "${userCredentials.username}" WITH PASSWORD '${userCredentials.password}';`);
-            await adminClient.query(`ALTER USER "${userCredentials.username}" WITH CREATEDB LOGIN;`);
-        } else if (event.ResourceProperties.onCreateIfExists === 'DeleteAndRecreate' && e.code === PostgresErrorCodes.DUPLICATE_OBJECT) {
-            await adminClient.query(`DROP USER "${userCredentials.username}";`);
-            await adminClient.query(createUserQuery);
-        } else {
-            throw e;
-        }
+// Merges host, port, dbname, engine, sslmode and a postgresql:// URI into
+// the user secret, so that it can be used as is (for example as a
+// DATABASE_URL). Only writes a new version of the secret if any of them
+// have changed.
+const writeConnectionDetails = async (properties: CustomResourceProperties): Promise<void> => {
+    if (!properties.userSecretArn) {
+        throw new Error('userSecretArn is required to write connection details');
     }
 
-    const createDatabaseQuery = `CREATE DATABASE "${event.ResourceProperties.databaseName}";`;
+    const secretsManagerClient = new secretsmanager.SecretsManagerClient({
+        region: process.env['AWS_REGION'],
+    });
+    const response = await secretsManagerClient.send(
+        new secretsmanager.GetSecretValueCommand({
+            SecretId: properties.userSecretArn,
+        }),
+    );
+    const secretJson = z
+        .object({
+            username: z.string(),
+            password: z.string(),
+        })
+        .passthrough()
+        .parse(JSON.parse(response.SecretString ?? '{}'));
+
+    const connectionDetails = {
+        host: properties.dbClusterHostname,
+        port: properties.dbClusterPort,
+        dbname: properties.databaseName,
+        engine: 'postgres',
+        sslmode: properties.ssl?.mode ?? 'verify-full',
+    };
+    const updatedSecretJson = {
+        ...secretJson,
+        ...connectionDetails,
+        uri: formatConnectionUri({ ...connectionDetails, username: secretJson.username, password: secretJson.password }),
+    };
+    if (JSON.stringify(updatedSecretJson) === JSON.stringify(secretJson)) {
+        log('Connection details in user secret are up to date');
+        return;
+    }
 
-    const userClient = await userClientManager.getClient();
-    try {
-        await userClient.query(createDatabaseQuery);
-    } catch (e) {
-        if (!isPostgresError(e)) {
-            throw e;
-        }
-        log('Error creating database', {
-            // Pass the error such that is can be converted to JSON
-            error: String(e),
-            errorCode: String(e.code),
-        });
-        if (event.ResourceProperties.onCreateIfExists === 'Adopt' && e.code === PostgresErrorCodes.DUPLICATE_DATABASE) {
-            // Database already exists, so we'll just adopt it
-            log('Database already exists, adopting');
-            await adminClient.query(`ALTER DATABASE "${event.ResourceProperties.databaseName}" OWNER TO "${userCredentials.username}";`);
-        } else if (event.ResourceProperties.onCreateIfExists === 'DeleteAndRecreate') {
-            if (e.code === PostgresErrorCodes.DUPLICATE_DATABASE) {
-                log('Database already exists, deleting and recreating');
-                await adminClient.query(`DROP DATABASE "${event.ResourceProperties.databaseName}";`);
-                await userClient.query(createDatabaseQuery);
-            }
-        } else {
-            throw e;
-        }
+    if (properties.plan) {
+        properties.plan.add('-- Write the connection details to the user secret');
+        return;
     }
+    log('Writing connection details to user secret', { ...connectionDetails });
+    await secretsManagerClient.send(
+        new secretsmanager.PutSecretValueCommand({
+            SecretId: properties.userSecretArn,
+            SecretString: JSON.stringify(updatedSecretJson),
+        }),
+    );
+};
 
-    await adminClient.end();
-    await userClient.end();
+// With the AlternatingUsers rotation strategy, the user secret names
+// either the user or its clone (which is a member of the user, so can
+// act for it). The user is the one that owns the database.
+const withRotatedUsername = (credentials: DbCredentials, rotationStrategy: string | undefined): DbCredentials => {
+    if (rotationStrategy === 'AlternatingUsers' && credentials.username.endsWith(ALTERNATE_USERNAME_SUFFIX)) {
+        return {
+            ...credentials,
+            username: credentials.username.slice(0, -ALTERNATE_USERNAME_SUFFIX.length),
+        };
+    }
+    return credentials;
+};
 
-    return {
-        PhysicalResourceId: [event.ResourceProperties.dbClusterHostname, event.ResourceProperties.databaseName, userCredentials.username].join('/'),
-    };
+// The user's password is null with IAM authentication. With the
+// AlternatingUsers rotation strategy, the password is that of
+// passwordUsername, which is the clone if the user secret names it.
+interface UserCredentials {
+    username: string;
+    password: string | null;
+    passwordUsername: string;
+}
+
+const quotePassword = (password: string | null): string => {
+    return password === null ? 'NULL' : quoteLiteral(password);
 };
 
-const handleUpdate = async (event: UpdateEvent): Promise<Response> => {
-    log('Handling update');
-    const userClient = new LazyPostgresClientFromSecretsManager({
-        dbSecretArn: event.ResourceProperties.userSecretArn,
-        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
-        dbClusterPort: event.ResourceProperties.dbClusterPort,
-        databaseName: 'postgres',
+// Connects as the user. With IAM authentication the handler has no
+// password for the user, so instead connects as the admin and sets its
+// role to the user, which grantIamAuthentication makes possible.
+const getUserClientManager = (properties: CustomResourceProperties, databaseName: string): LazyPostgresClientFromSecretsManager => {
+    if (properties.authentication === 'Iam') {
+        if (!properties.username) {
+            throw new Error('username is required with Iam authentication');
+        }
+        return new LazyPostgresClientFromSecretsManager({
+            dbSecretArn: properties.dbSecretArn,
+            credentialsFormat: properties.dbCredentialsFormat,
+            dbClusterHostname: properties.dbClusterHostname,
+            dbClusterPort: properties.dbClusterPort,
+            ssl: properties.ssl,
+            connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+            dataApiResourceArn: properties.dataApiResourceArn,
+            plan: properties.plan,
+            databaseName,
+            setRole: properties.username,
+        });
+    }
+
+    if (!properties.userSecretArn) {
+        throw new Error('userSecretArn is required with Password authentication');
+    }
+    return new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: properties.userSecretArn,
+        credentialsFormat: properties.userCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        ssl: properties.ssl,
+        connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+        dataApiResourceArn: properties.dataApiResourceArn,
+        plan: properties.plan,
+        databaseName,
     });
+};
 
-    const userCredentials = await userClient.getCredentials();
+// Records which initScripts have been run in a database, and their
+// checksums. Created by the owner in the public schema.
+const INIT_SCRIPTS_TABLE = 'public.pg_user_and_database_init_scripts';
 
-    if (event.PhysicalResourceId !== [event.ResourceProperties.dbClusterHostname, event.ResourceProperties.databaseName, userCredentials.username].join('/')) {
-        throw new Error(`Cannot change database name or username`);
+const getInitScriptSql = async (script: InitScript): Promise<string> => {
+    if (script.sql !== undefined) {
+        return script.sql;
+    }
+    if (!script.s3Bucket || !script.s3Key) {
+        throw new Error(`Init script ${script.name} has neither sql nor an S3 location`);
+    }
+    const s3Client = new s3.S3Client({
+        region: process.env['AWS_REGION'],
+    });
+    const response = await s3Client.send(
+        new s3.GetObjectCommand({
+            Bucket: script.s3Bucket,
+            Key: script.s3Key,
+        }),
+    );
+    if (!response.Body) {
+        throw new Error(`Init script ${script.name} is empty`);
     }
+    return await response.Body.transformToString();
+};
 
-    const adminClient = new LazyPostgresClientFromSecretsManager({
-        dbSecretArn: event.ResourceProperties.dbSecretArn,
-        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
-        dbClusterPort: event.ResourceProperties.dbClusterPort,
-        databaseName: 'postgres',
+// Runs, in order, each of the init scripts that has not been run in the
+// database before, each in a transaction along with recording its
+// checksum. Fails before running any if a script that has been run has
+// since changed, as it can't be run again. Scripts removed from the list
+// are forgotten about, rather than undone.
+const runInitScripts = async (properties: CustomResourceProperties, scripts: InitScript[], adminUsername: string): Promise<void> => {
+    const ownerClientManager = getUserClientManager(properties, properties.databaseName);
+    const adminClientManager = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: properties.dbSecretArn,
+        credentialsFormat: properties.dbCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        ssl: properties.ssl,
+        connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+        dataApiResourceArn: properties.dataApiResourceArn,
+        plan: properties.plan,
+        databaseName: properties.databaseName,
     });
 
-    if (event.ResourceProperties.onUpdateIfUserDoesNotExist === 'Create') {
-        log('Creating user if it does not exist', { username: userCredentials.username });
+    const ownerClient = await ownerClientManager.getClient();
+    // Rather than CREATE TABLE IF NOT EXISTS, which still needs CREATE on
+    // the public schema, which the user may no longer have (see
+    // revokePublicAccess)
+    const tableResult = await ownerClient.query<{ exists: boolean }>('SELECT to_regclass($1) IS NOT NULL AS exists;', [INIT_SCRIPTS_TABLE]);
+    const tableExists = tableResult.rows[0]?.exists === true;
+    if (!tableExists) {
+        await ownerClient.query(`CREATE TABLE ${INIT_SCRIPTS_TABLE} (name text PRIMARY KEY, checksum text NOT NULL, applied_at timestamptz NOT NULL DEFAULT now());`);
+    }
+    // So that scripts run as the admin can be recorded
+    await ownerClient.query(`GRANT SELECT, INSERT ON ${INIT_SCRIPTS_TABLE} TO ${quoteIdentifier(adminUsername)};`);
+    // In plan mode, the CREATE TABLE isn't run, so there is nothing to
+    // read
+    const applied: { name: string; checksum: string }[] = tableExists ? (await ownerClient.query<{ name: string; checksum: string }>(`SELECT name, checksum FROM ${INIT_SCRIPTS_TABLE};`)).rows : [];
+
+    const pending: { script: InitScript; sql: string; checksum: string }[] = [];
+    for (const script of scripts) {
+        const sql = await getInitScriptSql(script);
+        const checksum = crypto.createHash('sha256').update(sql).digest('hex');
+        const appliedScript = applied.find((row) => row.name === script.name);
+        if (!appliedScript) {
+            pending.push({ script, sql, checksum });
+        } else if (appliedScript.checksum !== checksum) {
+            throw new Error(`Init script ${script.name} has changed since it was run, so can't be run again. Add a new script instead.`);
+        }
+    }
+
+    for (const { script, sql, checksum } of pending) {
+        log('Running init script', { name: script.name, runAs: script.runAs, checksum });
+        const client = script.runAs === 'Admin' ? await adminClientManager.getClient() : ownerClient;
+        await client.query('BEGIN;');
         try {
-            const client = await adminClient.getClient();
-            await client.query(`CREATE USER "${userCredentials.username}" WITH PASSWORD '${userCredentials.password}' CREATEDB LOGIN;`);
+            await client.query(sql);
+            await client.query(`INSERT INTO ${INIT_SCRIPTS_TABLE} (name, checksum) VALUES ($1, $2);`, [script.name, checksum]);
+            await client.query('COMMIT;');
         } catch (e) {
-            if (!isPostgresError(e)) {
-                throw e;
-            }
-            // If the user already exists, do nothing
-            if (e.code !== PostgresErrorCodes.DUPLICATE_OBJECT) {
-                throw e;
-            } else {
-                log('User already exists, doing nothing');
-            }
+            await client.query('ROLLBACK;');
+            throw e;
         }
-    } else {
-        log('Not creating user if it does not exist', { username: userCredentials.username });
     }
 
-    if (event.ResourceProperties.onUpdateSetUserPassword === 'Always') {
-        log('Setting user password', { username: userCredentials.username });
-        const client = await adminClient.getClient();
-        await client.query(`ALTER USER "${userCredentials.username}" WITH PASSWORD '${userCredentials.password}';`);
-    } else {
-        log('Not setting user password', { username: userCredentials.username });
-    }
+    await ownerClientManager.end();
+    await adminClientManager.end();
+};
 
-    if (event.ResourceProperties.onUpdateSetUserPermissions === 'Always') {
-        log('Setting user permissions', { username: userCredentials.username });
-        const client = await adminClient.getClient();
-        await client.query(`ALTER USER "${userCredentials.username}" WITH CREATEDB LOGIN;`);
-    } else {
-        log('Not setting user permissions', { username: userCredentials.username });
-    }
+const getSchemaExists = async (client: QueryClient, schema: string): Promise<boolean> => {
+    const result = await client.query('SELECT 1 FROM pg_namespace WHERE nspname = $1;', [schema]);
+    return result.rows.length > 0;
+};
 
-    if (event.ResourceProperties.onUpdateIfDatabaseDoesNotExist === 'Create') {
-        log('Creating database if it does not exist', { databaseName: event.ResourceProperties.databaseName });
+const getPublicCanCreateInPublicSchema = async (client: QueryClient): Promise<boolean> => {
+    const result = await client.query<{ granted: boolean }>(
+        "SELECT EXISTS (SELECT 1 FROM pg_namespace n, aclexplode(COALESCE(n.nspacl, acldefault('n', n.nspowner))) a WHERE n.nspname = 'public' AND a.grantee = 0 AND a.privilege_type = 'CREATE') AS granted;",
+    );
+    return result.rows[0].granted;
+};
+
+// Stops any role other than the user, the admin, and those granted
+// access (such as by PostgresDatabaseRole) connecting to the database,
+// and anyone but the user creating objects in its public schema, both of
+// which PUBLIC can do by default (CREATE on public only before Postgres
+// 15).
+const revokePublicAccess = async (properties: CustomResourceProperties, adminUsername: string): Promise<void> => {
+    const userClientManager = getUserClientManager(properties, properties.databaseName);
+    const userClient = await userClientManager.getClient();
+    const database = quoteIdentifier(properties.databaseName);
+
+    log('Revoking public access', { databaseName: properties.databaseName });
+    // The admin still connects to the database, for example to install
+    // extensions
+    await userClient.query(`GRANT CONNECT ON DATABASE ${database} TO ${quoteIdentifier(adminUsername)};`);
+    await userClient.query(`REVOKE CONNECT ON DATABASE ${database} FROM PUBLIC;`);
+
+    if (await getSchemaExists(userClient, 'public')) {
+        // Before Postgres 15, public is owned by the bootstrap user
+        // rather than the database owner, so the user's revoke may do
+        // nothing but warn. If so, the admin tries.
         try {
-            const client = await userClient.getClient();
-            await client.query(`CREATE DATABASE "${event.ResourceProperties.databaseName}";`);
+            await userClient.query('REVOKE CREATE ON SCHEMA public FROM PUBLIC;');
         } catch (e) {
-            if (!isPostgresError(e)) {
+            if (!isPostgresError(e) || e.code !== PostgresErrorCodes.INSUFFICIENT_PRIVILEGE) {
                 throw e;
             }
-            // If the database already exists, do nothing
-            if (e.code !== PostgresErrorCodes.DUPLICATE_DATABASE) {
-                throw e;
-            } else {
-                log('Database already exists, doing nothing');
+        }
+        // In plan mode the revoke isn't run, so can't be checked
+        if (!properties.plan && (await getPublicCanCreateInPublicSchema(userClient))) {
+            log('User cannot revoke CREATE on schema public, trying as admin');
+            const databaseAdminClientManager = new LazyPostgresClientFromSecretsManager({
+                dbSecretArn: properties.dbSecretArn,
+                credentialsFormat: properties.dbCredentialsFormat,
+                dbClusterHostname: properties.dbClusterHostname,
+                dbClusterPort: properties.dbClusterPort,
+                ssl: properties.ssl,
+                connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+                dataApiResourceArn: properties.dataApiResourceArn,
+                plan: properties.plan,
+                databaseName: properties.databaseName,
+            });
+            await (await databaseAdminClientManager.getClient()).query('REVOKE CREATE ON SCHEMA public FROM PUBLIC;');
+            await databaseAdminClientManager.end();
+            if (await getPublicCanCreateInPublicSchema(userClient)) {
+                throw new Error('Cannot revoke CREATE on schema public from PUBLIC, as neither the user nor the admin user has the grant option');
             }
         }
-    } else {
-        log('Not creating database if it does not exist', { databaseName: event.ResourceProperties.databaseName });
     }
 
-    if (event.ResourceProperties.onUpdateSetDatabaseOwnership === 'Always') {
-        log('Setting database ownership', { databaseName: event.ResourceProperties.databaseName });
-        const client = await adminClient.getClient();
-        await client.query(`ALTER DATABASE "${event.ResourceProperties.databaseName}" OWNER TO "${userCredentials.username}";`);
-    } else {
-        log('Not setting database ownership', { databaseName: event.ResourceProperties.databaseName });
+    await userClientManager.end();
+};
+
+// Undoes revokePublicAccess, other than for the public schema
+const restorePublicAccess = async (properties: CustomResourceProperties): Promise<void> => {
+    const userClientManager = getUserClientManager(properties, properties.databaseName);
+    log('Restoring public access', { databaseName: properties.databaseName });
+    await (await userClientManager.getClient()).query(`GRANT CONNECT ON DATABASE ${quoteIdentifier(properties.databaseName)} TO PUBLIC;`);
+    await userClientManager.end();
+};
+
+// Creates the schemas that don't exist, owned by the user, and sets
+// their default privileges. The default privileges of the old schemas
+// are all revoked first, so that removing one (or a schema) revokes it.
+// A schema removed from the list is not dropped, as it may hold data.
+const reconcileSchemas = async (properties: CustomResourceProperties, schemas: DatabaseSchema[], oldSchemas: DatabaseSchema[]): Promise<void> => {
+    const userClientManager = getUserClientManager(properties, properties.databaseName);
+    const userClient = await userClientManager.getClient();
+    const { username } = await getUserCredentials(properties, userClientManager);
+    const owner = quoteIdentifier(username);
+
+    for (const schema of oldSchemas) {
+        if (!(await getSchemaExists(userClient, schema.name))) {
+            continue;
+        }
+        for (const defaultPrivilege of schema.defaultPrivileges) {
+            const granteeResult = await userClient.query('SELECT 1 FROM pg_roles WHERE rolname = $1;', [defaultPrivilege.grantee]);
+            if (granteeResult.rows.length === 0) {
+                continue;
+            }
+            await userClient.query(
+                `ALTER DEFAULT PRIVILEGES FOR ROLE ${owner} IN SCHEMA ${quoteIdentifier(schema.name)} REVOKE ALL ON ${defaultPrivilege.on.toUpperCase()} FROM ${quoteIdentifier(
+                    defaultPrivilege.grantee,
+                )};`,
+            );
+        }
     }
 
-    await adminClient.end();
-    await userClient.end();
+    for (const schema of schemas) {
+        log('Creating schema if it does not exist', { schemaName: schema.name });
+        // With AlternatingUsers the handler may be connected as the
+        // clone, so the owner is named
+        await userClient.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema.name)} AUTHORIZATION ${owner};`);
+        const ownerResult = await userClient.query<{ owner: string }>('SELECT pg_get_userbyid(nspowner) AS owner FROM pg_namespace WHERE nspname = $1;', [schema.name]);
+        // Which is only missing in plan mode
+        const schemaOwner = ownerResult.rows[0]?.owner;
+        if (schemaOwner !== undefined && schemaOwner !== username) {
+            log('Schema already exists, and is not owned by the user', { schemaName: schema.name, schemaOwner });
+        }
 
-    return {
-        PhysicalResourceId: event.PhysicalResourceId,
-    };
+        for (const defaultPrivilege of schema.defaultPrivileges) {
+            log('Setting default privileges', { schemaName: schema.name, ...defaultPrivilege });
+            await userClient.query(
+                `ALTER DEFAULT PRIVILEGES FOR ROLE ${owner} IN SCHEMA ${quoteIdentifier(schema.name)} GRANT ${defaultPrivilege.privileges.join(
+                    ', ',
+                )} ON ${defaultPrivilege.on.toUpperCase()} TO ${quoteIdentifier(defaultPrivilege.grantee)};`,
+            );
+        }
+    }
+
+    await userClientManager.end();
 };
 
-const handleDelete = async (event: DeleteEvent): Promise<Response> => {
-    log('Handling delete');
-    if (event.ResourceProperties.onDelete === 'Retain') {
-        log('Retaining user and database');
+const getUserCredentials = async (properties: CustomResourceProperties, userClientManager: LazyPostgresClientFromSecretsManager): Promise<UserCredentials> => {
+    if (properties.authentication === 'Iam' && properties.username) {
         return {
-            PhysicalResourceId: event.PhysicalResourceId,
+            username: properties.username,
+            password: null,
+            passwordUsername: properties.username,
         };
     }
+    const credentials = await userClientManager.getCredentials();
+    return {
+        ...withRotatedUsername(credentials, properties.userRotationStrategy),
+        passwordUsername: credentials.username,
+    };
+};
 
-    const adminClientManager = new LazyPostgresClientFromSecretsManager({
-        dbSecretArn: event.ResourceProperties.dbSecretArn,
-        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
-        dbClusterPort: event.ResourceProperties.dbClusterPort,
-        databaseName: 'postgres',
-    });
-    const userClientManager = new LazyPostgresClientFromSecretsManager({
-        dbSecretArn: event.ResourceProperties.userSecretArn,
-        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
-        dbClusterPort: event.ResourceProperties.dbClusterPort,
-        databaseName: event.ResourceProperties.databaseName,
-    });
-
-    const userCredentials = await userClientManager.getCredentials();
-    const adminCredentials = await adminClientManager.getCredentials();
+// Allows the user to log in with an IAM token, and the admin to act as
+// the user (see getUserClientManager)
+const grantIamAuthentication = async (adminClient: QueryClient, adminUsername: string, username: string): Promise<void> => {
+    log('Granting IAM authentication', { username });
+    await adminClient.query(`GRANT rds_iam TO ${quoteIdentifier(username)};`);
+    await adminClient.query(`GRANT ${quoteIdentifier(username)} TO ${quoteIdentifier(adminUsername)};`);
+};
+
+const getCreateDatabaseQuery = (databaseName: string, options: DatabaseOptions = {}): string => {
+    const clauses: string[] = [];
+    const hasLocaleOptions = IMMUTABLE_DATABASE_OPTIONS.some((name) => name !== 'template' && options[name] !== undefined);
+    const template = options.template ?? (hasLocaleOptions ? 'template0' : undefined);
+    if (template !== undefined) {
+        clauses.push(`TEMPLATE ${quoteIdentifier(template)}`);
+    }
+    if (options.encoding !== undefined) {
+        clauses.push(`ENCODING ${quoteLiteral(options.encoding)}`);
+    }
+    if (options.lcCollate !== undefined) {
+        clauses.push(`LC_COLLATE ${quoteLiteral(options.lcCollate)}`);
+    }
+    if (options.lcCtype !== undefined) {
+        clauses.push(`LC_CTYPE ${quoteLiteral(options.lcCtype)}`);
+    }
+    if (options.localeProvider !== undefined) {
+        clauses.push(`LOCALE_PROVIDER ${options.localeProvider}`);
+    }
+    if (options.icuLocale !== undefined) {
+        clauses.push(`ICU_LOCALE ${quoteLiteral(options.icuLocale)}`);
+    }
+    if (options.tablespace !== undefined) {
+        clauses.push(`TABLESPACE ${quoteIdentifier(options.tablespace)}`);
+    }
+    if (options.connectionLimit !== undefined) {
+        clauses.push(`CONNECTION LIMIT ${options.connectionLimit}`);
+    }
+    if (options.allowConnections !== undefined) {
+        clauses.push(`ALLOW_CONNECTIONS ${options.allowConnections}`);
+    }
+
+    if (clauses.length === 0) {
+        return `CREATE DATABASE ${quoteIdentifier(databaseName)};`;
+    }
+    return `CREATE DATABASE ${quoteIdentifier(databaseName)} WITH ${clauses.join(' ')};`;
+};
+
+const checkImmutableDatabaseOptions = (databaseName: string, options: DatabaseOptions, oldOptions: DatabaseOptions): void => {
+    const changedOptions = IMMUTABLE_DATABASE_OPTIONS.filter((name) => options[name] !== oldOptions[name]);
+    if (changedOptions.length > 0) {
+        throw new Error(`Cannot change ${changedOptions.join(', ')} of database ${databaseName}, as they can only be set when it is created`);
+    }
+};
+
+// Sets the options that can be changed after create, resetting any that
+// have been removed to their defaults. The client must be connected as
+// the owner of the database.
+const setDatabaseOptions = async (client: QueryClient, databaseName: string, options: DatabaseOptions, oldOptions: DatabaseOptions): Promise<void> => {
+    const database = quoteIdentifier(databaseName);
+    log('Setting database options', { databaseName, options });
+    await client.query(`ALTER DATABASE ${database} WITH CONNECTION LIMIT ${options.connectionLimit ?? -1} ALLOW_CONNECTIONS ${options.allowConnections ?? true};`);
+
+    // Moving a database is slow, and fails if anything is connected to
+    // it, so only do so if it is in a different tablespace
+    const tablespace = options.tablespace ?? (oldOptions.tablespace !== undefined ? 'pg_default' : undefined);
+    if (tablespace !== undefined) {
+        const result = await client.query<{ spcname: string }>('SELECT t.spcname FROM pg_database d JOIN pg_tablespace t ON t.oid = d.dattablespace WHERE d.datname = $1;', [databaseName]);
+        if (result.rows[0]?.spcname !== tablespace) {
+            log('Moving database to tablespace', { databaseName, tablespace });
+            await client.query(`ALTER DATABASE ${database} SET TABLESPACE ${quoteIdentifier(tablespace)};`);
+        }
+    }
+};
+
+// Sets userAttributes and userSettings on the user, and on its alternate
+// user if it has one. Resets the attributes if userAttributes has been
+// removed, and any settings that have been removed.
+const setUserAttributesAndSettings = async (adminClient: QueryClient, properties: CustomResourceProperties, oldProperties: OldCustomResourceProperties, username: string): Promise<void> => {
+    const usernames = [username];
+    if (properties.userRotationStrategy === 'AlternatingUsers') {
+        const alternateUsername = `${username}${ALTERNATE_USERNAME_SUFFIX}`;
+        const result = await adminClient.query('SELECT 1 FROM pg_roles WHERE rolname = $1;', [alternateUsername]);
+        if (result.rows.length > 0) {
+            usernames.push(alternateUsername);
+        }
+    }
+
+    const settings = properties.userSettings ?? {};
+    const removedSettingNames = Object.keys(oldProperties.userSettings ?? {}).filter((name) => settings[name] === undefined);
+
+    for (const name of usernames) {
+        if (properties.userAttributes || oldProperties.userAttributes) {
+            log('Setting user attributes', { username: name, userAttributes: properties.userAttributes ?? {} });
+            await setRoleAttributes(adminClient, name, properties.userAttributes ?? {});
+        }
+        if (properties.userSettings || removedSettingNames.length > 0) {
+            log('Setting user settings', { username: name, userSettings: settings, removedSettingNames });
+            await setRoleSettings(adminClient, name, settings, removedSettingNames);
+        }
+    }
+};
+
+interface Drift {
+    property: string;
+    expected: unknown;
+    actual: unknown;
+}
+
+// Compares the user and database as they are to what the properties
+// declare, before anything is changed. Only checks what is declared, so
+// for example the user's CREATEROLE is only checked if userAttributes is
+// set.
+const inspectDrift = async (adminClient: QueryClient, properties: CustomResourceProperties, username: string): Promise<Drift[]> => {
+    const drift: Drift[] = [];
+    const addDrift = (property: string, expected: unknown, actual: unknown): void => {
+        if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+            drift.push({ property, expected, actual });
+        }
+    };
+
+    const roleResult = await adminClient.query<{
+        rolcanlogin: boolean;
+        rolcreatedb: boolean;
+        rolcreaterole: boolean;
+        rolinherit: boolean;
+        rolconnlimit: number;
+        rolvaliduntil: string | null;
+    }>(
+        // As an ISO string, which the Data API and pg can both return
+        `SELECT rolcanlogin, rolcreatedb, rolcreaterole, rolinherit, rolconnlimit,
+            CASE WHEN rolvaliduntil IS NULL OR rolvaliduntil = 'infinity' THEN NULL ELSE to_char(rolvaliduntil AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') END AS rolvaliduntil
+        FROM pg_roles WHERE rolname = $1;`,
+        [username],
+    );
+    const role = roleResult.rows[0];
+    addDrift('userExists', true, role !== undefined);
+
+    if (role) {
+        const attributes = properties.userAttributes ?? {};
+        addDrift('userAttributes.login', true, role.rolcanlogin);
+        addDrift('userAttributes.createDb', attributes.createDb ?? true, role.rolcreatedb);
+        if (properties.userAttributes) {
+            addDrift('userAttributes.createRole', attributes.createRole ?? false, role.rolcreaterole);
+            addDrift('userAttributes.inherit', attributes.inherit ?? true, role.rolinherit);
+            addDrift('userAttributes.connectionLimit', attributes.connectionLimit ?? -1, role.rolconnlimit);
+            addDrift('userAttributes.validUntil', attributes.validUntil ? new Date(attributes.validUntil).toISOString() : null, role.rolvaliduntil);
+        }
+
+        const settingsResult = await adminClient.query<{ setting: string }>(
+            'SELECT unnest(s.setconfig) AS setting FROM pg_db_role_setting s JOIN pg_roles r ON r.oid = s.setrole WHERE r.rolname = $1 AND s.setdatabase = 0;',
+            [username],
+        );
+        const actualSettings = new Map(settingsResult.rows.map((row) => [row.setting.slice(0, row.setting.indexOf('=')), row.setting.slice(row.setting.indexOf('=') + 1)]));
+        for (const [name, value] of Object.entries(properties.userSettings ?? {})) {
+            const actual = actualSettings.get(name) ?? null;
+            if (Array.isArray(value)) {
+                // Postgres reformats lists, so only check that they are set
+                addDrift(`userSettings.${name}`, 'set', actual === null ? null : 'set');
+            } else {
+                addDrift(`userSettings.${name}`, value, actual);
+            }
+        }
+
+        if (properties.authentication === 'Iam') {
+            const iamResult = await adminClient.query<{ member: boolean }>("SELECT pg_has_role($1, 'rds_iam', 'MEMBER') AS member;", [username]);
+            addDrift('authentication', 'Iam', iamResult.rows[0].member ? 'Iam' : 'Password');
+        } else if (properties.userSecretArn) {
+            // A separate client, as a client that failed to connect can't
+            // be reused. Tries to connect only once, as here a failure to
+            // authenticate is the answer rather than something to retry
+            // (or, in plan mode, to carry on without).
+            const passwordClientManager = new LazyPostgresClientFromSecretsManager({
+                dbSecretArn: properties.userSecretArn,
+                credentialsFormat: properties.userCredentialsFormat,
+                dbClusterHostname: properties.dbClusterHostname,
+                dbClusterPort: properties.dbClusterPort,
+                ssl: properties.ssl,
+                dataApiResourceArn: properties.dataApiResourceArn,
+                databaseName: 'postgres',
+            });
+            let passwordWorks = true;
+            try {
+                // The Data API only authenticates when a query is run
+                await (await passwordClientManager.getClient()).query('SELECT 1;');
+                await passwordClientManager.end();
+            } catch (e) {
+                if (!isPostgresError(e) || e.code !== PostgresErrorCodes.AUTHENTICATION_FAILED) {
+                    throw e;
+                }
+                passwordWorks = false;
+            }
+            addDrift('userPasswordWorks', true, passwordWorks);
+        }
+    }
+
+    const databaseResult = await adminClient.query<{ owner: string; datconnlimit: number; datallowconn: boolean }>(
+        'SELECT pg_get_userbyid(datdba) AS owner, datconnlimit, datallowconn FROM pg_database WHERE datname = $1;',
+        [properties.databaseName],
+    );
+    const database = databaseResult.rows[0];
+    addDrift('databaseExists', true, database !== undefined);
+
+    if (database) {
+        addDrift('databaseOwner', username, database.owner);
+        if (properties.databaseOptions) {
+            addDrift('databaseOptions.connectionLimit', properties.databaseOptions.connectionLimit ?? -1, database.datconnlimit);
+            addDrift('databaseOptions.allowConnections', properties.databaseOptions.allowConnections ?? true, database.datallowconn);
+        }
+
+        if (properties.extensions && database.datallowconn) {
+            const databaseAdminClientManager = new LazyPostgresClientFromSecretsManager({
+                dbSecretArn: properties.dbSecretArn,
+                credentialsFormat: properties.dbCredentialsFormat,
+                dbClusterHostname: properties.dbClusterHostname,
+                dbClusterPort: properties.dbClusterPort,
+                ssl: properties.ssl,
+                connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+                dataApiResourceArn: properties.dataApiResourceArn,
+                plan: properties.plan,
+                databaseName: properties.databaseName,
+            });
+            const installedExtensions = await getInstalledExtensions(await databaseAdminClientManager.getClient());
+            await databaseAdminClientManager.end();
+            for (const extension of properties.extensions) {
+                const installedExtension = installedExtensions.find((installed) => installed.name === extension.name);
+                if (extension.version) {
+                    addDrift(`extensions.${extension.name}`, extension.version, installedExtension?.version ?? null);
+                } else {
+                    addDrift(`extensions.${extension.name}`, 'installed', installedExtension ? 'installed' : null);
+                }
+            }
+        }
+    }
+
+    if (drift.length > 0) {
+        log('Drift detected', { drift });
+    } else {
+        log('No drift detected');
+    }
+    if (drift.length > 0 && properties.failOnDrift === 'true') {
+        throw new Error(`Drift detected, and failOnDrift is set: ${JSON.stringify(drift)}`);
+    }
+    return drift;
+};
+
+const formatDriftData = (drift: Drift[]): Record<string, string> => {
+    return {
+        Drift: JSON.stringify(drift),
+    };
+};
+
+// Objects that already existed on create, and were adopted rather than
+// created. These are recorded in the physical resource ID, as that is all
+// there is to go on in a delete, so that they are never dropped, even by
+// a rollback.
+type AdoptedObject = 'user' | 'database';
+
+const formatPhysicalResourceId = (id: string, adopted: AdoptedObject[]): string => {
+    if (adopted.length === 0) {
+        return id;
+    }
+    return `adopted=${adopted.join('+')};${id}`;
+};
+
+const parsePhysicalResourceId = (physicalResourceId: string): { id: string; adopted: AdoptedObject[] } => {
+    const match = /^adopted=([a-z+]+);([\s\S]*)$/.exec(physicalResourceId);
+    if (!match) {
+        return { id: physicalResourceId, adopted: [] };
+    }
+    return { id: match[2], adopted: match[1].split('+') as AdoptedObject[] };
+};
+
+// Drops what a failed create created, leaving anything adopted. Errors
+// are logged rather than thrown, so that the original error is reported.
+const undoCreate = async (adminClient: QueryClient, databaseName: string, username: string, created: { user: boolean; database: boolean }): Promise<void> => {
+    try {
+        if (created.database) {
+            log('Create failed, dropping created database', { databaseName });
+            await terminateSessions(adminClient, databaseName);
+            await adminClient.query(`DROP DATABASE IF EXISTS ${quoteIdentifier(databaseName)};`);
+        }
+        if (created.user) {
+            log('Create failed, dropping created user', { username });
+            await adminClient.query(`DROP USER IF EXISTS ${quoteIdentifier(username)};`);
+        }
+    } catch (e) {
+        log('Failed to undo create', { error: String(e) });
+    }
+};
+
+const handleCreate = async (event: CreateEvent): Promise<Response> => {
+    log('Handling create');
+    const adminClientManager = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: event.ResourceProperties.dbSecretArn,
+        credentialsFormat: event.ResourceProperties.dbCredentialsFormat,
+        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
+        dbClusterPort: event.ResourceProperties.dbClusterPort,
+        ssl: event.ResourceProperties.ssl,
+        connectionTimeoutSeconds: event.ResourceProperties.connectionTimeoutSeconds,
+        dataApiResourceArn: event.ResourceProperties.dataApiResourceArn,
+        plan: event.ResourceProperties.plan,
+        databaseName: 'postgres',
+    });
+    const userClientManager = getUserClientManager(event.ResourceProperties, 'postgres');
+
+    const userCredentials = await getUserCredentials(event.ResourceProperties, userClientManager);
+    const adminCredentials = await adminClientManager.getCredentials();
+
+    validateDatabaseName(event.ResourceProperties.databaseName);
+    validateUsername(userCredentials.username);
+
+    if (userCredentials.username === adminCredentials.username) {
+        throw new Error('Cannot create user with same name as the admin user');
+    }
+
+    const adminClient = await adminClientManager.getClient();
+
+    // Anything adopted is inspected before it is changed
+    let drift: Drift[] = [];
+    if (event.ResourceProperties.onCreateIfExists === 'Adopt') {
+        const existsResult = await adminClient.query<{ exists: boolean }>(
+            'SELECT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = $1) OR EXISTS (SELECT 1 FROM pg_database WHERE datname = $2) AS exists;',
+            [userCredentials.username, event.ResourceProperties.databaseName],
+        );
+        if (existsResult.rows[0].exists) {
+            drift = await inspectDrift(adminClient, event.ResourceProperties, userCredentials.username);
+        }
+    }
+
+    log('Creating database', {
+        databaseName: event.ResourceProperties.databaseName,
+        username: userCredentials.username,
+        onCreateIfExists: event.ResourceProperties.onCreateIfExists,
+    });
+
+    // What this invocation has created (rather than adopted), which is
+    // all that is undone if the create fails
+    const created = { user: false, database: false };
+    const adopted: AdoptedObject[] = [];
+
+    try {
+        const createUserQuery = `CREATE USER ${quoteIdentifier(userCredentials.username)} WITH PASSWORD ${quotePassword(userCredentials.password)} CREATEDB LOGIN;`;
+
+        try {
+            await adminClient.query(createUserQuery);
+            created.user = true;
+        } catch (e) {
+            if (!isPostgresError(e)) {
+                throw e;
+            }
+
+            if (event.ResourceProperties.onCreateIfExists === 'Adopt' && e.code === PostgresErrorCodes.DUPLICATE_OBJECT) {
+                // User already exists, so we'll just adopt it. Set the password to the new value and grant CREATEDB and LOGIN
+                adopted.push('user');
+                await adminClient.query(`ALTER USER ${quoteIdentifier(userCredentials.passwordUsername)} WITH PASSWORD ${quotePassword(userCredentials.password)};`);
+                await adminClient.query(`ALTER USER ${quoteIdentifier(userCredentials.username)} WITH CREATEDB LOGIN;`);
+            } else if (event.ResourceProperties.onCreateIfExists === 'DeleteAndRecreate' && e.code === PostgresErrorCodes.DUPLICATE_OBJECT) {
+                await adminClient.query(`DROP USER ${quoteIdentifier(userCredentials.username)};`);
+                await adminClient.query(createUserQuery);
+                created.user = true;
+            } else {
+                throw e;
+            }
+        }
+
+        if (event.ResourceProperties.authentication === 'Iam') {
+            await grantIamAuthentication(adminClient, adminCredentials.username, userCredentials.username);
+        }
+
+        const createDatabaseQuery = getCreateDatabaseQuery(event.ResourceProperties.databaseName, event.ResourceProperties.databaseOptions);
+
+        const userClient = await userClientManager.getClient();
+        try {
+            await userClient.query(createDatabaseQuery);
+            created.database = true;
+        } catch (e) {
+            if (!isPostgresError(e)) {
+                throw e;
+            }
+            log('Error creating database', {
+                // Pass the error such that is can be converted to JSON
+                error: String(e),
+                errorCode: String(e.code),
+            });
+            if (event.ResourceProperties.onCreateIfExists === 'Adopt' && e.code === PostgresErrorCodes.DUPLICATE_DATABASE) {
+                // Database already exists, so we'll just adopt it
+                log('Database already exists, adopting');
+                adopted.push('database');
+                await adminClient.query(`ALTER DATABASE ${quoteIdentifier(event.ResourceProperties.databaseName)} OWNER TO ${quoteIdentifier(userCredentials.username)};`);
+            } else if (event.ResourceProperties.onCreateIfExists === 'DeleteAndRecreate') {
+                if (e.code === PostgresErrorCodes.DUPLICATE_DATABASE) {
+                    log('Database already exists, deleting and recreating');
+                    await adminClient.query(`DROP DATABASE ${quoteIdentifier(event.ResourceProperties.databaseName)};`);
+                    await userClient.query(createDatabaseQuery);
+                    created.database = true;
+                } else {
+                    throw e;
+                }
+            } else {
+                throw e;
+            }
+        }
+
+        // Only now, as the user may need CREATEDB to create the database
+        await setUserAttributesAndSettings(adminClient, event.ResourceProperties, {}, userCredentials.username);
+
+        if (event.ResourceProperties.schemas) {
+            await reconcileSchemas(event.ResourceProperties, event.ResourceProperties.schemas, []);
+        }
+
+        let data = {
+            ...(await getConnectionData(adminClient, event.ResourceProperties, userCredentials.username)),
+            ...formatDriftData(drift),
+        };
+        if (event.ResourceProperties.extensions) {
+            log('Creating extensions', { extensions: event.ResourceProperties.extensions });
+            // Extensions are per-database, and most can only be created by
+            // the admin user, so connect to the new database as the admin
+            const databaseAdminClientManager = new LazyPostgresClientFromSecretsManager({
+                dbSecretArn: event.ResourceProperties.dbSecretArn,
+                credentialsFormat: event.ResourceProperties.dbCredentialsFormat,
+                dbClusterHostname: event.ResourceProperties.dbClusterHostname,
+                dbClusterPort: event.ResourceProperties.dbClusterPort,
+                ssl: event.ResourceProperties.ssl,
+                connectionTimeoutSeconds: event.ResourceProperties.connectionTimeoutSeconds,
+                dataApiResourceArn: event.ResourceProperties.dataApiResourceArn,
+                plan: event.ResourceProperties.plan,
+                databaseName: event.ResourceProperties.databaseName,
+            });
+            const installedExtensions = await reconcileExtensions(await databaseAdminClientManager.getClient(), event.ResourceProperties.extensions, []);
+            await databaseAdminClientManager.end();
+            data = { ...data, ...formatExtensionsData(installedExtensions) };
+        }
+
+        if (event.ResourceProperties.initScripts) {
+            await runInitScripts(event.ResourceProperties, event.ResourceProperties.initScripts, adminCredentials.username);
+        }
+        // Only after the init scripts, as before Postgres 15 the user can
+        // only create their tracking table in the public schema because
+        // PUBLIC can
+        if (event.ResourceProperties.revokePublicAccess === 'true') {
+            await revokePublicAccess(event.ResourceProperties, adminCredentials.username);
+        }
+
+        if (event.ResourceProperties.writeConnectionDetails === 'true') {
+            await writeConnectionDetails(event.ResourceProperties);
+        }
+
+        return {
+            PhysicalResourceId: formatPhysicalResourceId([event.ResourceProperties.dbClusterHostname, event.ResourceProperties.databaseName, userCredentials.username].join('/'), adopted),
+            Data: data,
+        };
+    } catch (e) {
+        await undoCreate(adminClient, event.ResourceProperties.databaseName, userCredentials.username, created);
+        throw e;
+    } finally {
+        await adminClientManager.end();
+        await userClientManager.end();
+    }
+};
+
+// Renames the user and/or database from those in the current physical
+// resource ID to those in the event's properties and user secret
+const renameUserAndDatabase = async (
+    event: UpdateEvent,
+    oldPhysicalResourceId: string,
+    adminClientManager: LazyPostgresClientFromSecretsManager,
+    userClientManager: LazyPostgresClientFromSecretsManager,
+    userCredentials: UserCredentials,
+): Promise<void> => {
+    const oldHostname = event.OldResourceProperties.dbClusterHostname;
+    const oldDatabaseName = event.OldResourceProperties.databaseName;
+    if (oldHostname !== event.ResourceProperties.dbClusterHostname) {
+        throw new Error('Cannot rename to a different cluster');
+    }
+    if (oldDatabaseName === undefined) {
+        throw new Error('Cannot rename without the previous database name');
+    }
+
+    // The username may be changed in place in the user secret, so the
+    // only reliable record of the old username is the physical resource
+    // ID, which is hostname/databaseName/username
+    const prefix = [oldHostname, oldDatabaseName, ''].join('/');
+    if (!oldPhysicalResourceId.startsWith(prefix)) {
+        throw new Error(`Cannot rename, as the physical resource ID ${oldPhysicalResourceId} does not match the previous properties`);
+    }
+    const oldUsername = oldPhysicalResourceId.slice(prefix.length);
+
+    const adminClient = await adminClientManager.getClient();
+
+    if (oldUsername !== userCredentials.username) {
+        log('Renaming user', { oldUsername, username: userCredentials.username });
+        await adminClient.query(`ALTER ROLE ${quoteIdentifier(oldUsername)} RENAME TO ${quoteIdentifier(userCredentials.username)};`);
+        if (event.ResourceProperties.userRotationStrategy === 'AlternatingUsers') {
+            const oldAlternateUsername = `${oldUsername}${ALTERNATE_USERNAME_SUFFIX}`;
+            const result = await adminClient.query('SELECT 1 FROM pg_roles WHERE rolname = $1;', [oldAlternateUsername]);
+            if (result.rows.length > 0) {
+                const alternateUsername = `${userCredentials.username}${ALTERNATE_USERNAME_SUFFIX}`;
+                log('Renaming alternate user', { oldUsername: oldAlternateUsername, username: alternateUsername });
+                await adminClient.query(`ALTER ROLE ${quoteIdentifier(oldAlternateUsername)} RENAME TO ${quoteIdentifier(alternateUsername)};`);
+            }
+        }
+        // Renaming clears MD5 passwords, as the username is their salt, so
+        // only the one in the user secret can be set again
+        await adminClient.query(`ALTER ROLE ${quoteIdentifier(userCredentials.passwordUsername)} WITH PASSWORD ${quotePassword(userCredentials.password)};`);
+    }
+
+    if (oldDatabaseName !== event.ResourceProperties.databaseName) {
+        if (event.ResourceProperties.onUpdateRename === 'TerminateSessionsAndRename') {
+            await terminateSessions(adminClient, oldDatabaseName);
+        }
+
+        // Only the owner can rename a database, and the owner now has its
+        // new name (if that changed)
+        log('Renaming database', { oldDatabaseName, databaseName: event.ResourceProperties.databaseName });
+        const userClient = await userClientManager.getClient();
+        await userClient.query(`ALTER DATABASE ${quoteIdentifier(oldDatabaseName)} RENAME TO ${quoteIdentifier(event.ResourceProperties.databaseName)};`);
+    }
+};
+
+const handleUpdate = async (event: UpdateEvent): Promise<Response> => {
+    log('Handling update');
+    const userClient = getUserClientManager(event.ResourceProperties, 'postgres');
+
+    const userCredentials = await getUserCredentials(event.ResourceProperties, userClient);
+
+    validateDatabaseName(event.ResourceProperties.databaseName);
+    validateUsername(userCredentials.username);
+    checkImmutableDatabaseOptions(event.ResourceProperties.databaseName, event.ResourceProperties.databaseOptions ?? {}, event.OldResourceProperties.databaseOptions ?? {});
+
+    const adminClient = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: event.ResourceProperties.dbSecretArn,
+        credentialsFormat: event.ResourceProperties.dbCredentialsFormat,
+        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
+        dbClusterPort: event.ResourceProperties.dbClusterPort,
+        ssl: event.ResourceProperties.ssl,
+        connectionTimeoutSeconds: event.ResourceProperties.connectionTimeoutSeconds,
+        dataApiResourceArn: event.ResourceProperties.dataApiResourceArn,
+        plan: event.ResourceProperties.plan,
+        databaseName: 'postgres',
+    });
+
+    // Whatever was adopted on create is still adopted after a rename
+    const current = parsePhysicalResourceId(event.PhysicalResourceId);
+    const id = [event.ResourceProperties.dbClusterHostname, event.ResourceProperties.databaseName, userCredentials.username].join('/');
+    if (current.id !== id) {
+        if (!event.ResourceProperties.onUpdateRename || event.ResourceProperties.onUpdateRename === 'Fail') {
+            throw new Error(`Cannot change database name or username`);
+        }
+        await renameUserAndDatabase(event, current.id, adminClient, userClient, userCredentials);
+    }
+    const physicalResourceId = formatPhysicalResourceId(id, current.adopted);
+
+    // Only if asked for, as it tries the user's password with a
+    // connection of its own
+    let drift: Drift[] = [];
+    if (event.ResourceProperties.onUpdateInspectDrift === 'Always' || event.ResourceProperties.failOnDrift === 'true') {
+        drift = await inspectDrift(await adminClient.getClient(), event.ResourceProperties, userCredentials.username);
+    }
+
+    if (event.ResourceProperties.onUpdateIfUserDoesNotExist === 'Create') {
+        log('Creating user if it does not exist', { username: userCredentials.username });
+        try {
+            const client = await adminClient.getClient();
+            await client.query(`CREATE USER ${quoteIdentifier(userCredentials.username)} WITH PASSWORD ${quotePassword(userCredentials.password)} CREATEDB LOGIN;`);
+        } catch (e) {
+            if (!isPostgresError(e)) {
+                throw e;
+            }
+            // If the user already exists, do nothing
+            if (e.code !== PostgresErrorCodes.DUPLICATE_OBJECT) {
+                throw e;
+            } else {
+                log('User already exists, doing nothing');
+            }
+        }
+    } else {
+        log('Not creating user if it does not exist', { username: userCredentials.username });
+    }
+
+    const authentication = event.ResourceProperties.authentication ?? 'Password';
+    const oldAuthentication = event.OldResourceProperties.authentication ?? 'Password';
+    if (authentication === 'Iam') {
+        const client = await adminClient.getClient();
+        if (oldAuthentication !== 'Iam') {
+            log('Switching from password to IAM authentication', { username: userCredentials.username });
+            await client.query(`ALTER USER ${quoteIdentifier(userCredentials.username)} WITH PASSWORD NULL;`);
+        }
+        // Always granted, so that the grant is kept in place
+        const adminCredentials = await adminClient.getCredentials();
+        await grantIamAuthentication(client, adminCredentials.username, userCredentials.username);
+    } else if (oldAuthentication === 'Iam') {
+        log('Switching from IAM to password authentication', { username: userCredentials.username });
+        const client = await adminClient.getClient();
+        await client.query(`REVOKE rds_iam FROM ${quoteIdentifier(userCredentials.username)};`);
+        await client.query(`ALTER USER ${quoteIdentifier(userCredentials.username)} WITH PASSWORD ${quotePassword(userCredentials.password)};`);
+    }
+
+    if (event.ResourceProperties.onUpdateSetUserPassword === 'Always') {
+        log('Setting user password', { username: userCredentials.passwordUsername });
+        const client = await adminClient.getClient();
+        await client.query(`ALTER USER ${quoteIdentifier(userCredentials.passwordUsername)} WITH PASSWORD ${quotePassword(userCredentials.password)};`);
+    } else {
+        log('Not setting user password', { username: userCredentials.username });
+    }
+
+    if (event.ResourceProperties.onUpdateSetUserPermissions === 'Always') {
+        log('Setting user permissions', { username: userCredentials.username });
+        const client = await adminClient.getClient();
+        await client.query(`ALTER USER ${quoteIdentifier(userCredentials.username)} WITH CREATEDB LOGIN;`);
+    } else {
+        log('Not setting user permissions', { username: userCredentials.username });
+    }
+
+    if (event.ResourceProperties.onUpdateIfDatabaseDoesNotExist === 'Create') {
+        log('Creating database if it does not exist', { databaseName: event.ResourceProperties.databaseName });
+        try {
+            const client = await userClient.getClient();
+            await client.query(getCreateDatabaseQuery(event.ResourceProperties.databaseName, event.ResourceProperties.databaseOptions));
+        } catch (e) {
+            if (!isPostgresError(e)) {
+                throw e;
+            }
+            // If the database already exists, do nothing
+            if (e.code !== PostgresErrorCodes.DUPLICATE_DATABASE) {
+                throw e;
+            } else {
+                log('Database already exists, doing nothing');
+            }
+        }
+    } else {
+        log('Not creating database if it does not exist', { databaseName: event.ResourceProperties.databaseName });
+    }
+
+    if (event.ResourceProperties.onUpdateSetDatabaseOwnership === 'Always') {
+        log('Setting database ownership', { databaseName: event.ResourceProperties.databaseName });
+        const client = await adminClient.getClient();
+        await client.query(`ALTER DATABASE ${quoteIdentifier(event.ResourceProperties.databaseName)} OWNER TO ${quoteIdentifier(userCredentials.username)};`);
+    } else {
+        log('Not setting database ownership', { databaseName: event.ResourceProperties.databaseName });
+    }
+
+    if (event.ResourceProperties.databaseOptions || event.OldResourceProperties.databaseOptions) {
+        await setDatabaseOptions(
+            await userClient.getClient(),
+            event.ResourceProperties.databaseName,
+            event.ResourceProperties.databaseOptions ?? {},
+            event.OldResourceProperties.databaseOptions ?? {},
+        );
+    }
+
+    await setUserAttributesAndSettings(await adminClient.getClient(), event.ResourceProperties, event.OldResourceProperties, userCredentials.username);
+
+    const extensions = event.ResourceProperties.extensions ?? [];
+    let extensionsToDrop: string[] = [];
+    if (event.ResourceProperties.onUpdateDropRemovedExtensions === 'Always') {
+        const oldExtensions = event.OldResourceProperties.extensions ?? [];
+        extensionsToDrop = oldExtensions.map((extension) => extension.name).filter((name) => !extensions.some((extension) => extension.name === name));
+    }
+
+    if (event.ResourceProperties.schemas || event.OldResourceProperties.schemas) {
+        await reconcileSchemas(event.ResourceProperties, event.ResourceProperties.schemas ?? [], event.OldResourceProperties.schemas ?? []);
+    }
+
+    let data = {
+        ...(await getConnectionData(await adminClient.getClient(), event.ResourceProperties, userCredentials.username)),
+        ...formatDriftData(drift),
+    };
+    if (event.ResourceProperties.extensions || extensionsToDrop.length > 0) {
+        log('Reconciling extensions', { extensions, extensionsToDrop });
+        const databaseAdminClientManager = new LazyPostgresClientFromSecretsManager({
+            dbSecretArn: event.ResourceProperties.dbSecretArn,
+            credentialsFormat: event.ResourceProperties.dbCredentialsFormat,
+            dbClusterHostname: event.ResourceProperties.dbClusterHostname,
+            dbClusterPort: event.ResourceProperties.dbClusterPort,
+            ssl: event.ResourceProperties.ssl,
+            connectionTimeoutSeconds: event.ResourceProperties.connectionTimeoutSeconds,
+            dataApiResourceArn: event.ResourceProperties.dataApiResourceArn,
+            plan: event.ResourceProperties.plan,
+            databaseName: event.ResourceProperties.databaseName,
+        });
+        const installedExtensions = await reconcileExtensions(await databaseAdminClientManager.getClient(), extensions, extensionsToDrop);
+        await databaseAdminClientManager.end();
+        data = { ...data, ...formatExtensionsData(installedExtensions) };
+    } else {
+        log('Not reconciling extensions');
+    }
+
+    if (event.ResourceProperties.initScripts) {
+        await runInitScripts(event.ResourceProperties, event.ResourceProperties.initScripts, (await adminClient.getCredentials()).username);
+    }
+    // After the init scripts, as in handleCreate
+    if (event.ResourceProperties.revokePublicAccess === 'true') {
+        await revokePublicAccess(event.ResourceProperties, (await adminClient.getCredentials()).username);
+    } else if (event.OldResourceProperties.revokePublicAccess === 'true') {
+        await restorePublicAccess(event.ResourceProperties);
+    }
+
+    await adminClient.end();
+    await userClient.end();
+
+    if (event.ResourceProperties.writeConnectionDetails === 'true') {
+        await writeConnectionDetails(event.ResourceProperties);
+    }
+
+    // If renamed, CloudFormation sends a delete for the old physical
+    // resource ID, which handleDelete must then treat as a no-op
+    return {
+        PhysicalResourceId: physicalResourceId,
+        Data: data,
+    };
+};
+
+const getDatabaseOwner = async (client: QueryClient, databaseName: string): Promise<string | undefined> => {
+    const result = await client.query<{ owner: string }>('SELECT pg_get_userbyid(datdba) AS owner FROM pg_database WHERE datname = $1;', [databaseName]);
+    return result.rows[0]?.owner;
+};
+
+const getOwnedDatabaseNames = async (client: QueryClient, username: string): Promise<string[]> => {
+    const result = await client.query<{ datname: string }>('SELECT datname FROM pg_database WHERE pg_get_userbyid(datdba) = $1;', [username]);
+    return result.rows.map((row) => row.datname);
+};
+
+const getServerVersionNum = async (client: QueryClient): Promise<number> => {
+    const result = await client.query<{ server_version_num: string }>('SHOW server_version_num;');
+    return Number(result.rows[0].server_version_num);
+};
+
+const terminateSessions = async (adminClient: QueryClient, databaseName: string): Promise<void> => {
+    log('Terminating sessions', { databaseName });
+    await adminClient.query('SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE datname = $1 AND pid <> pg_backend_pid();', [databaseName]);
+};
+
+// Lists the tables (outside of the system schemas) with at least one
+// row. The client must be connected to the database as a user that can
+// read every table, ie its owner.
+const getNonEmptyTables = async (client: QueryClient): Promise<string[]> => {
+    const tables = await client.query<{ nspname: string; relname: string }>(
+        `SELECT n.nspname, c.relname FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace WHERE c.relkind IN ('r', 'p') AND n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg_toast%' ORDER BY n.nspname, c.relname;`,
+    );
+
+    const nonEmptyTables: string[] = [];
+    for (const table of tables.rows) {
+        const name = `${quoteIdentifier(table.nspname)}.${quoteIdentifier(table.relname)}`;
+        const result = await client.query(`SELECT 1 FROM ${name} LIMIT 1;`);
+        if (result.rows.length > 0) {
+            nonEmptyTables.push(name);
+        }
+    }
+    return nonEmptyTables;
+};
+
+// Drops the user. If it still owns objects or has privileges in other
+// databases, which stop it being dropped, reassigns what it owns in
+// those databases to the admin user, drops its privileges, and tries
+// again.
+const dropUser = async (properties: CustomResourceProperties, adminClient: QueryClient, adminUsername: string, username: string): Promise<void> => {
+    try {
+        await adminClient.query(`DROP USER IF EXISTS ${quoteIdentifier(username)};`);
+        return;
+    } catch (e) {
+        if (!isPostgresError(e) || e.code !== PostgresErrorCodes.DEPENDENT_OBJECTS_STILL_EXIST) {
+            throw e;
+        }
+        log('User still has dependent objects', { username, error: String(e) });
+    }
+
+    const result = await adminClient.query<{ datname: string }>(
+        'SELECT DISTINCT d.datname FROM pg_shdepend s JOIN pg_database d ON d.oid = s.dbid WHERE s.refobjid = (SELECT oid FROM pg_roles WHERE rolname = $1);',
+        [username],
+    );
+
+    // REASSIGN OWNED needs the admin to be a member of the user
+    await adminClient.query(`GRANT ${quoteIdentifier(username)} TO ${quoteIdentifier(adminUsername)};`);
+
+    for (const row of result.rows) {
+        log('Reassigning and dropping owned objects', { username, databaseName: row.datname });
+        const databaseAdminClientManager = new LazyPostgresClientFromSecretsManager({
+            dbSecretArn: properties.dbSecretArn,
+            credentialsFormat: properties.dbCredentialsFormat,
+            dbClusterHostname: properties.dbClusterHostname,
+            dbClusterPort: properties.dbClusterPort,
+            ssl: properties.ssl,
+            connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+            dataApiResourceArn: properties.dataApiResourceArn,
+            plan: properties.plan,
+            databaseName: row.datname,
+        });
+        const databaseAdminClient = await databaseAdminClientManager.getClient();
+        await databaseAdminClient.query(`REASSIGN OWNED BY ${quoteIdentifier(username)} TO ${quoteIdentifier(adminUsername)};`);
+        await databaseAdminClient.query(`DROP OWNED BY ${quoteIdentifier(username)};`);
+        await databaseAdminClientManager.end();
+    }
+
+    await adminClient.query(`DROP USER IF EXISTS ${quoteIdentifier(username)};`);
+};
+
+// Postgres identifiers are at most 63 bytes, so shortens name to leave
+// room for the suffix
+const withArchiveSuffix = (name: string, suffix: string): string => {
+    let base = name;
+    while (Buffer.byteLength(`${base}${suffix}`, 'utf8') > MAX_IDENTIFIER_BYTES) {
+        base = base.slice(0, -1);
+    }
+    return `${base}${suffix}`;
+};
+
+// Rather than dropping anything, renames the database and user with a
+// timestamp suffix, and stops the user (and any alternate user) from
+// logging in, so that the data can be recovered later. As with a drop,
+// a user that still owns another database is left alone, as it may be
+// the same user after the database was renamed.
+const archiveUserAndDatabase = async (event: DeleteEvent, adminClient: QueryClient, username: string, adopted: AdoptedObject[]): Promise<void> => {
+    const suffix = `_archived_${new Date()
+        .toISOString()
+        .replace(/[^0-9]/g, '')
+        .slice(0, 14)}`;
+    const databaseName = event.ResourceProperties.databaseName;
+
+    const databaseOwner = await getDatabaseOwner(adminClient, databaseName);
+    let archivedDatabase = false;
+    if (adopted.includes('database')) {
+        log('Database was adopted, so not archiving it', { databaseName });
+    } else if (databaseOwner === undefined) {
+        log('Database does not exist, not archiving it', { databaseName });
+    } else if (databaseOwner !== username) {
+        log('Database is not owned by the user, so not archiving it', { databaseName, databaseOwner });
+    } else {
+        const archivedDatabaseName = withArchiveSuffix(databaseName, suffix);
+        await terminateSessions(adminClient, databaseName);
+        // Only the owner can rename a database
+        log('Archiving database', { databaseName, archivedDatabaseName });
+        const userClientManager = getUserClientManager(event.ResourceProperties, 'postgres');
+        const userClient = await userClientManager.getClient();
+        await userClient.query(`ALTER DATABASE ${quoteIdentifier(databaseName)} RENAME TO ${quoteIdentifier(archivedDatabaseName)};`);
+        await userClientManager.end();
+        archivedDatabase = true;
+    }
+
+    if (adopted.includes('user')) {
+        log('User was adopted, so not archiving it', { username });
+        return;
+    }
+    if (!archivedDatabase) {
+        const ownedDatabaseNames = await getOwnedDatabaseNames(adminClient, username);
+        if (ownedDatabaseNames.length > 0) {
+            log('User still owns databases, so not archiving it', { username, ownedDatabaseNames });
+            return;
+        }
+    }
+    const usernames = [username];
+    if (event.ResourceProperties.userRotationStrategy === 'AlternatingUsers') {
+        usernames.push(`${username}${ALTERNATE_USERNAME_SUFFIX}`);
+    }
+    for (const name of usernames) {
+        const roleResult = await adminClient.query('SELECT 1 FROM pg_roles WHERE rolname = $1;', [name]);
+        if (roleResult.rows.length === 0) {
+            log('User does not exist, not archiving it', { username: name });
+            continue;
+        }
+        const archivedUsername = withArchiveSuffix(name, suffix);
+        log('Archiving user', { username: name, archivedUsername });
+        await adminClient.query(`ALTER ROLE ${quoteIdentifier(name)} RENAME TO ${quoteIdentifier(archivedUsername)};`);
+        await adminClient.query(`ALTER ROLE ${quoteIdentifier(archivedUsername)} WITH NOLOGIN;`);
+    }
+};
+
+const handleDelete = async (event: DeleteEvent): Promise<Response> => {
+    log('Handling delete');
+    if (event.ResourceProperties.onDelete === 'Retain') {
+        log('Retaining user and database');
+        return {
+            PhysicalResourceId: event.PhysicalResourceId,
+        };
+    }
+
+    const adminClientManager = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: event.ResourceProperties.dbSecretArn,
+        credentialsFormat: event.ResourceProperties.dbCredentialsFormat,
+        dbClusterHostname: event.ResourceProperties.dbClusterHostname,
+        dbClusterPort: event.ResourceProperties.dbClusterPort,
+        ssl: event.ResourceProperties.ssl,
+        connectionTimeoutSeconds: event.ResourceProperties.connectionTimeoutSeconds,
+        dataApiResourceArn: event.ResourceProperties.dataApiResourceArn,
+        plan: event.ResourceProperties.plan,
+        databaseName: 'postgres',
+    });
+    const userClientManager = getUserClientManager(event.ResourceProperties, event.ResourceProperties.databaseName);
+
+    const userCredentials = await getUserCredentials(event.ResourceProperties, userClientManager);
+    const adminCredentials = await adminClientManager.getCredentials();
+
+    validateDatabaseName(event.ResourceProperties.databaseName);
+    validateUsername(userCredentials.username);
+
+    // Only deletes what the physical resource ID names, which must be
+    // exactly the hostname, database and user of the properties. After a
+    // rename, CloudFormation deletes the old physical resource ID, and
+    // what it names has become the new resource. If the username was
+    // changed in place in the user secret, the ID no longer matches. If
+    // only the database was renamed, it still matches the old
+    // properties, but the user still owns the renamed database, so is
+    // neither dropped nor archived below.
+    const { id, adopted } = parsePhysicalResourceId(event.PhysicalResourceId);
+    const username = userCredentials.username;
+    if (id !== [event.ResourceProperties.dbClusterHostname, event.ResourceProperties.databaseName, username].join('/')) {
+        log('Physical resource ID does not match the properties, so not deleting anything', { physicalResourceId: event.PhysicalResourceId, username: userCredentials.username });
+        return {
+            PhysicalResourceId: event.PhysicalResourceId,
+        };
+    }
+
+    if (username === adminCredentials.username) {
+        throw new Error('Cannot create user with same name as the admin user');
+    }
+
+    const adminClient = await adminClientManager.getClient();
+
+    if (event.ResourceProperties.onDelete === 'Archive') {
+        await archiveUserAndDatabase(event, adminClient, username, adopted);
+        await adminClientManager.end();
+        return {
+            PhysicalResourceId: event.PhysicalResourceId,
+        };
+    }
+
+    // The database may also have been created or renamed since by
+    // something else, so only drop a database owned by the user, and only
+    // drop a user that no longer owns a database.
+    const databaseOwner = await getDatabaseOwner(adminClient, event.ResourceProperties.databaseName);
+    if (adopted.includes('database')) {
+        log('Database was adopted, so not dropping it', { databaseName: event.ResourceProperties.databaseName });
+    } else if (databaseOwner === undefined) {
+        log('Database does not exist', { databaseName: event.ResourceProperties.databaseName });
+    } else if (databaseOwner !== username) {
+        log('Database is not owned by the user, so not dropping it', { databaseName: event.ResourceProperties.databaseName, databaseOwner });
+    } else {
+        if (event.ResourceProperties.onDelete === 'DeleteIfEmpty') {
+            const nonEmptyTables = await getNonEmptyTables(await userClientManager.getClient());
+            await userClientManager.end();
+            if (nonEmptyTables.length > 0) {
+                throw new Error(`Not dropping database ${event.ResourceProperties.databaseName}, as these tables have rows: ${nonEmptyTables.join(', ')}`);
+            }
+        }
+
+        const databaseIdentifier = quoteIdentifier(event.ResourceProperties.databaseName);
+        if (event.ResourceProperties.onDelete === 'DeleteForce') {
+            log('Dropping database with force', { databaseName: event.ResourceProperties.databaseName });
+            if ((await getServerVersionNum(adminClient)) >= 130000) {
+                await adminClient.query(`DROP DATABASE IF EXISTS ${databaseIdentifier} WITH (FORCE);`);
+            } else {
+                await terminateSessions(adminClient, event.ResourceProperties.databaseName);
+                await adminClient.query(`DROP DATABASE IF EXISTS ${databaseIdentifier};`);
+            }
+        } else {
+            log('Dropping database if exists', { databaseName: event.ResourceProperties.databaseName });
+            await adminClient.query(`DROP DATABASE IF EXISTS ${databaseIdentifier};`);
+        }
+    }
+
+    // In plan mode, the database is still there to find after it's dropped
+    const ownedDatabaseNames = (await getOwnedDatabaseNames(adminClient, username)).filter((name) => event.ResourceProperties.plan?.getPlannedDatabaseExists(name) !== false);
+    if (adopted.includes('user')) {
+        log('User was adopted, so not dropping it', { username });
+    } else if (ownedDatabaseNames.length > 0) {
+        log('User still owns databases, so not dropping it', { username, ownedDatabaseNames });
+    } else {
+        if (event.ResourceProperties.userRotationStrategy === 'AlternatingUsers') {
+            const alternateUsername = `${username}${ALTERNATE_USERNAME_SUFFIX}`;
+            log('Dropping alternate user if exists', { username: alternateUsername });
+            await dropUser(event.ResourceProperties, adminClient, adminCredentials.username, alternateUsername);
+        }
+        log('Dropping user if exists', { username });
+        await dropUser(event.ResourceProperties, adminClient, adminCredentials.username, username);
+    }
+
+    await adminClientManager.end();
+
+    return {
+        PhysicalResourceId: event.PhysicalResourceId,
+    };
+};
+
+// Additional roles for an existing database, created by the
+// PostgresDatabaseRole construct. Distinguished from the main resource
+// by a resourceType of Role.
+
+const rolePrivileges = {
+    ReadOnly: {
+        tables: 'SELECT',
+        sequences: 'SELECT',
+    },
+    // Deliberately excludes TRUNCATE, REFERENCES and TRIGGER, and any
+    // CREATE, so this role cannot make schema changes
+    ReadWrite: {
+        tables: 'SELECT, INSERT, UPDATE, DELETE',
+        sequences: 'USAGE, SELECT, UPDATE',
+    },
+};
+
+const schemasSchema = z
+    .string()
+    .transform((value) => JSON.parse(value))
+    .pipe(z.array(z.string()));
+
+const roleResourcePropertiesSchema = z.object({
+    resourceType: z.literal('Role'),
+    dbClusterHostname: z.string(),
+    dbClusterPort: z.string().regex(/^\d+$/).transform(Number),
+    dbSecretArn: z.string(),
+    dbCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    ssl: sslPropertySchema.optional(),
+    connectionTimeoutSeconds: connectionTimeoutSecondsSchema,
+    dataApiResourceArn: z.string().optional(),
+    ownerSecretArn: z.string().optional(),
+    ownerCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    ownerUsername: z.string().optional(),
+    userSecretArn: z.string(),
+    userCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    databaseName: z.string(),
+    access: z.enum(['ReadOnly', 'ReadWrite']),
+    schemas: schemasSchema,
+    ownerRotationStrategy: z.enum(['SingleUser', 'AlternatingUsers']).optional(),
+    onCreateIfExists: z.enum(['Fail', 'Adopt']),
+    onDelete: z.enum(['Delete', 'Retain']),
+    onUpdateSetUserPassword: z.enum(['Always', 'Never']),
+    plan: planPropertySchema.optional(),
+});
+
+type RoleResourceProperties = z.infer<typeof roleResourcePropertiesSchema>;
+
+const roleEventSchema = z.discriminatedUnion('RequestType', [
+    z.object({
+        RequestType: z.literal('Create'),
+        ResourceProperties: roleResourcePropertiesSchema,
+    }),
+    z.object({
+        RequestType: z.literal('Update'),
+        PhysicalResourceId: z.string(),
+        ResourceProperties: roleResourcePropertiesSchema,
+        OldResourceProperties: z.object({
+            databaseName: z.string().optional(),
+            schemas: schemasSchema.optional(),
+        }),
+    }),
+    z.object({
+        RequestType: z.literal('Delete'),
+        PhysicalResourceId: z.string(),
+        ResourceProperties: roleResourcePropertiesSchema,
+    }),
+]);
+
+type RoleEvent = z.infer<typeof roleEventSchema>;
+
+// Connects to the database as its owner, as the owner can grant
+// privileges on everything it owns (and set its own default privileges),
+// whereas the admin user generally can't. If the owner uses IAM
+// authentication, there is no owner secret, so acts as the owner
+// through the admin user.
+const getRoleOwnerClientManager = (properties: RoleResourceProperties): LazyPostgresClientFromSecretsManager => {
+    if (!properties.ownerSecretArn) {
+        if (!properties.ownerUsername) {
+            throw new Error('ownerUsername is required without ownerSecretArn');
+        }
+        return new LazyPostgresClientFromSecretsManager({
+            dbSecretArn: properties.dbSecretArn,
+            credentialsFormat: properties.dbCredentialsFormat,
+            dbClusterHostname: properties.dbClusterHostname,
+            dbClusterPort: properties.dbClusterPort,
+            ssl: properties.ssl,
+            connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+            dataApiResourceArn: properties.dataApiResourceArn,
+            plan: properties.plan,
+            databaseName: properties.databaseName,
+            setRole: properties.ownerUsername,
+        });
+    }
+    return new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: properties.ownerSecretArn,
+        credentialsFormat: properties.ownerCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        ssl: properties.ssl,
+        connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+        dataApiResourceArn: properties.dataApiResourceArn,
+        plan: properties.plan,
+        databaseName: properties.databaseName,
+    });
+};
+
+const getRoleOwnerUsername = async (properties: RoleResourceProperties, ownerClientManager: LazyPostgresClientFromSecretsManager): Promise<string> => {
+    if (!properties.ownerSecretArn && properties.ownerUsername) {
+        return properties.ownerUsername;
+    }
+    return withRotatedUsername(await ownerClientManager.getCredentials(), properties.ownerRotationStrategy).username;
+};
+
+const getRoleAdminClientManager = (properties: RoleResourceProperties): LazyPostgresClientFromSecretsManager => {
+    return new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: properties.dbSecretArn,
+        credentialsFormat: properties.dbCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        ssl: properties.ssl,
+        connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+        dataApiResourceArn: properties.dataApiResourceArn,
+        plan: properties.plan,
+        databaseName: 'postgres',
+    });
+};
+
+const getRoleUserCredentials = async (
+    properties: RoleResourceProperties,
+    adminClientManager: LazyPostgresClientFromSecretsManager,
+    ownerClientManager: LazyPostgresClientFromSecretsManager,
+): Promise<DbCredentials> => {
+    const userCredentials = await new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: properties.userSecretArn,
+        credentialsFormat: properties.userCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        ssl: properties.ssl,
+        connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+        dataApiResourceArn: properties.dataApiResourceArn,
+        plan: properties.plan,
+        databaseName: properties.databaseName,
+    }).getCredentials();
+    const adminCredentials = await adminClientManager.getCredentials();
+    const ownerUsername = await getRoleOwnerUsername(properties, ownerClientManager);
+
+    validateUsername(userCredentials.username);
+
+    if (userCredentials.username === adminCredentials.username || userCredentials.username === ownerUsername) {
+        throw new Error('Cannot create role with same name as the admin user or database owner');
+    }
+
+    return userCredentials;
+};
+
+const grantRolePrivileges = async (ownerClient: QueryClient, properties: RoleResourceProperties, ownerUsername: string, username: string): Promise<void> => {
+    const privileges = rolePrivileges[properties.access];
+    const user = quoteIdentifier(username);
+    const owner = quoteIdentifier(ownerUsername);
+
+    log('Granting connect', { databaseName: properties.databaseName, username });
+    await ownerClient.query(`GRANT CONNECT ON DATABASE ${quoteIdentifier(properties.databaseName)} TO ${user};`);
+
+    for (const schemaName of properties.schemas) {
+        // Schemas are often created by an application's migrations,
+        // after this has first run. Their privileges are granted on the
+        // next update.
+        if (!(await getSchemaExists(ownerClient, schemaName))) {
+            log('Schema does not exist, not granting privileges', { schemaName, username });
+            continue;
+        }
+
+        log('Granting privileges', { schemaName, username, access: properties.access });
+        const schema = quoteIdentifier(schemaName);
+        await ownerClient.query(`GRANT USAGE ON SCHEMA ${schema} TO ${user};`);
+        await ownerClient.query(`GRANT ${privileges.tables} ON ALL TABLES IN SCHEMA ${schema} TO ${user};`);
+        await ownerClient.query(`GRANT ${privileges.sequences} ON ALL SEQUENCES IN SCHEMA ${schema} TO ${user};`);
+        await ownerClient.query(`ALTER DEFAULT PRIVILEGES FOR ROLE ${owner} IN SCHEMA ${schema} GRANT ${privileges.tables} ON TABLES TO ${user};`);
+        await ownerClient.query(`ALTER DEFAULT PRIVILEGES FOR ROLE ${owner} IN SCHEMA ${schema} GRANT ${privileges.sequences} ON SEQUENCES TO ${user};`);
+    }
+};
+
+// Revoking default privileges matters, as the role cannot be dropped
+// while it is named in any
+const revokeRolePrivileges = async (ownerClient: QueryClient, schemas: string[], ownerUsername: string, username: string): Promise<void> => {
+    const user = quoteIdentifier(username);
+    const owner = quoteIdentifier(ownerUsername);
+
+    for (const schemaName of schemas) {
+        if (!(await getSchemaExists(ownerClient, schemaName))) {
+            log('Schema does not exist, not revoking privileges', { schemaName, username });
+            continue;
+        }
+
+        log('Revoking privileges', { schemaName, username });
+        const schema = quoteIdentifier(schemaName);
+        await ownerClient.query(`REVOKE ALL ON ALL TABLES IN SCHEMA ${schema} FROM ${user};`);
+        await ownerClient.query(`REVOKE ALL ON ALL SEQUENCES IN SCHEMA ${schema} FROM ${user};`);
+        await ownerClient.query(`ALTER DEFAULT PRIVILEGES FOR ROLE ${owner} IN SCHEMA ${schema} REVOKE ALL ON TABLES FROM ${user};`);
+        await ownerClient.query(`ALTER DEFAULT PRIVILEGES FOR ROLE ${owner} IN SCHEMA ${schema} REVOKE ALL ON SEQUENCES FROM ${user};`);
+        await ownerClient.query(`REVOKE USAGE ON SCHEMA ${schema} FROM ${user};`);
+    }
+};
+
+// Does not include the database name, so that renaming the database (see
+// onUpdateRename) does not replace the role
+const getRolePhysicalResourceId = (properties: RoleResourceProperties, username: string): string => {
+    return [properties.dbClusterHostname, username, 'role'].join('/');
+};
+
+const handleRoleCreate = async (properties: RoleResourceProperties): Promise<Response> => {
+    log('Handling role create');
+    const adminClientManager = getRoleAdminClientManager(properties);
+    const ownerClientManager = getRoleOwnerClientManager(properties);
+    const userCredentials = await getRoleUserCredentials(properties, adminClientManager, ownerClientManager);
+
+    const adminClient = await adminClientManager.getClient();
+    const user = quoteIdentifier(userCredentials.username);
+
+    log('Creating role', { username: userCredentials.username, onCreateIfExists: properties.onCreateIfExists });
+    const adopted: AdoptedObject[] = [];
+    try {
+        await adminClient.query(`CREATE USER ${user} WITH PASSWORD ${quoteLiteral(userCredentials.password)} LOGIN;`);
+    } catch (e) {
+        if (!isPostgresError(e)) {
+            throw e;
+        }
+
+        if (properties.onCreateIfExists === 'Adopt' && e.code === PostgresErrorCodes.DUPLICATE_OBJECT) {
+            log('Role already exists, adopting');
+            adopted.push('user');
+            await adminClient.query(`ALTER USER ${user} WITH PASSWORD ${quoteLiteral(userCredentials.password)} LOGIN;`);
+        } else {
+            throw e;
+        }
+    }
+
+    const ownerUsername = await getRoleOwnerUsername(properties, ownerClientManager);
+    try {
+        await grantRolePrivileges(await ownerClientManager.getClient(), properties, ownerUsername, userCredentials.username);
+    } catch (e) {
+        if (adopted.length === 0) {
+            // The role can only be dropped once any privileges granted
+            // before the failure are revoked
+            try {
+                log('Create failed, dropping created role', { username: userCredentials.username });
+                await revokeRolePrivileges(await ownerClientManager.getClient(), properties.schemas, ownerUsername, userCredentials.username);
+                await (await ownerClientManager.getClient()).query(`REVOKE CONNECT ON DATABASE ${quoteIdentifier(properties.databaseName)} FROM ${user};`);
+                await adminClient.query(`DROP USER IF EXISTS ${user};`);
+            } catch (undoError) {
+                log('Failed to undo create', { error: String(undoError) });
+            }
+        }
+        throw e;
+    } finally {
+        await adminClientManager.end();
+        await ownerClientManager.end();
+    }
+
+    return {
+        PhysicalResourceId: formatPhysicalResourceId(getRolePhysicalResourceId(properties, userCredentials.username), adopted),
+    };
+};
+
+const handleRoleUpdate = async (physicalResourceId: string, properties: RoleResourceProperties, oldDatabaseName: string, oldSchemas: string[]): Promise<Response> => {
+    log('Handling role update');
+    const adminClientManager = getRoleAdminClientManager(properties);
+    const ownerClientManager = getRoleOwnerClientManager(properties);
+    const userCredentials = await getRoleUserCredentials(properties, adminClientManager, ownerClientManager);
+
+    if (parsePhysicalResourceId(physicalResourceId).id !== getRolePhysicalResourceId(properties, userCredentials.username)) {
+        throw new Error(`Cannot change username`);
+    }
+
+    if (oldDatabaseName !== properties.databaseName) {
+        // Privileges move with a renamed database, but would be left
+        // behind if this role were pointed at a different one
+        const adminClient = await adminClientManager.getClient();
+        if ((await getDatabaseOwner(adminClient, oldDatabaseName)) !== undefined) {
+            throw new Error('Cannot change database name, except by renaming the database');
+        }
+        log('Database has been renamed', { oldDatabaseName, databaseName: properties.databaseName });
+    }
+
+    if (properties.onUpdateSetUserPassword === 'Always') {
+        log('Setting role password', { username: userCredentials.username });
+        const adminClient = await adminClientManager.getClient();
+        await adminClient.query(`ALTER USER ${quoteIdentifier(userCredentials.username)} WITH PASSWORD ${quoteLiteral(userCredentials.password)};`);
+    } else {
+        log('Not setting role password', { username: userCredentials.username });
+    }
+
+    // Revoke everything and grant again, so a change of access from
+    // ReadWrite to ReadOnly removes the write privileges
+    const ownerUsername = await getRoleOwnerUsername(properties, ownerClientManager);
+    const ownerClient = await ownerClientManager.getClient();
+    const schemasToRevoke = [...oldSchemas, ...properties.schemas.filter((schema) => !oldSchemas.includes(schema))];
+    await revokeRolePrivileges(ownerClient, schemasToRevoke, ownerUsername, userCredentials.username);
+    await grantRolePrivileges(ownerClient, properties, ownerUsername, userCredentials.username);
+
+    await adminClientManager.end();
+    await ownerClientManager.end();
+
+    return {
+        PhysicalResourceId: physicalResourceId,
+    };
+};
+
+const handleRoleDelete = async (physicalResourceId: string, properties: RoleResourceProperties): Promise<Response> => {
+    log('Handling role delete');
+    if (properties.onDelete === 'Retain') {
+        log('Retaining role');
+        return {
+            PhysicalResourceId: physicalResourceId,
+        };
+    }
+
+    const adminClientManager = getRoleAdminClientManager(properties);
+    const ownerClientManager = getRoleOwnerClientManager(properties);
+    const userCredentials = await getRoleUserCredentials(properties, adminClientManager, ownerClientManager);
+    const ownerUsername = await getRoleOwnerUsername(properties, ownerClientManager);
+
+    try {
+        const ownerClient = await ownerClientManager.getClient();
+        await revokeRolePrivileges(ownerClient, properties.schemas, ownerUsername, userCredentials.username);
+        await ownerClient.query(`REVOKE CONNECT ON DATABASE ${quoteIdentifier(properties.databaseName)} FROM ${quoteIdentifier(userCredentials.username)};`);
+    } catch (e) {
+        if (!isPostgresError(e) || e.code !== PostgresErrorCodes.INVALID_CATALOG_NAME) {
+            throw e;
+        }
+        log('Database does not exist, not revoking privileges', { databaseName: properties.databaseName });
+    }
+
+    if (parsePhysicalResourceId(physicalResourceId).adopted.includes('user')) {
+        log('Role was adopted, so not dropping it', { username: userCredentials.username });
+    } else {
+        log('Dropping role if exists', { username: userCredentials.username });
+        const adminClient = await adminClientManager.getClient();
+        await adminClient.query(`DROP USER IF EXISTS ${quoteIdentifier(userCredentials.username)};`);
+    }
+
+    await adminClientManager.end();
+    await ownerClientManager.end();
+
+    return {
+        PhysicalResourceId: physicalResourceId,
+    };
+};
+
+const handleRoleEvent = async (event: RoleEvent): Promise<Response> => {
+    if (event.RequestType === 'Create') {
+        return await handleRoleCreate(event.ResourceProperties);
+    } else if (event.RequestType === 'Update') {
+        return await handleRoleUpdate(
+            event.PhysicalResourceId,
+            event.ResourceProperties,
+            event.OldResourceProperties.databaseName ?? event.ResourceProperties.databaseName,
+            event.OldResourceProperties.schemas ?? [],
+        );
+    } else if (event.RequestType === 'Delete') {
+        return await handleRoleDelete(event.PhysicalResourceId, event.ResourceProperties);
+    }
+    throw new Error('Invalid event type');
+};
+
+// Users and databases in MySQL, created by the MysqlUserAndDatabase
+// construct. Distinguished from the Postgres resources by an engine of
+// Mysql. The lifecycle options mean the same as for Postgres, but MySQL
+// has no database owners, so the user is instead granted all privileges
+// on the database, and has no rename.
+
+const mysqlResourcePropertiesSchema = z.object({
+    engine: z.literal('Mysql'),
+    dbClusterHostname: z.string(),
+    dbClusterPort: z.string().regex(/^\d+$/).transform(Number),
+    dbSecretArn: z.string(),
+    dbCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    ssl: sslPropertySchema.optional(),
+    connectionTimeoutSeconds: connectionTimeoutSecondsSchema,
+    userSecretArn: z.string(),
+    userCredentialsFormat: credentialsFormatPropertySchema.optional(),
+    databaseName: z.string(),
+    onDelete: z.enum(['Delete', 'Retain', 'DeleteIfEmpty']),
+    onCreateIfExists: z.enum(['Fail', 'Adopt', 'DeleteAndRecreate']),
+    onUpdateIfUserDoesNotExist: z.enum(['Ignore', 'Create']),
+    onUpdateIfDatabaseDoesNotExist: z.enum(['Ignore', 'Create']),
+    onUpdateSetUserPassword: z.enum(['Always', 'Never']),
+    onUpdateSetUserPermissions: z.enum(['Always', 'Never']),
+});
+
+type MysqlResourceProperties = z.infer<typeof mysqlResourcePropertiesSchema>;
+
+const mysqlEventSchema = z.discriminatedUnion('RequestType', [
+    z.object({
+        RequestType: z.literal('Create'),
+        ResourceProperties: mysqlResourcePropertiesSchema,
+    }),
+    z.object({
+        RequestType: z.literal('Update'),
+        PhysicalResourceId: z.string(),
+        ResourceProperties: mysqlResourcePropertiesSchema,
+    }),
+    z.object({
+        RequestType: z.literal('Delete'),
+        PhysicalResourceId: z.string(),
+        ResourceProperties: mysqlResourcePropertiesSchema,
+    }),
+]);
+
+type MysqlEvent = z.infer<typeof mysqlEventSchema>;
+
+// Connects without a database, as the admin user doesn't need one
+const getMysqlAdminClientManager = (properties: MysqlResourceProperties): LazyMysqlClientFromSecretsManager => {
+    return new LazyMysqlClientFromSecretsManager({
+        dbSecretArn: properties.dbSecretArn,
+        credentialsFormat: properties.dbCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        ssl: properties.ssl,
+        connectionTimeoutSeconds: properties.connectionTimeoutSeconds,
+        databaseName: 'mysql',
+    });
+};
+
+// Fetches and validates the credentials of both the user and the admin
+const getMysqlCredentials = async (
+    properties: MysqlResourceProperties,
+    adminClientManager: LazyMysqlClientFromSecretsManager,
+): Promise<{ userCredentials: DbCredentials; adminCredentials: DbCredentials }> => {
+    const userCredentials = await new LazyMysqlClientFromSecretsManager({
+        dbSecretArn: properties.userSecretArn,
+        credentialsFormat: properties.userCredentialsFormat,
+        dbClusterHostname: properties.dbClusterHostname,
+        dbClusterPort: properties.dbClusterPort,
+        databaseName: properties.databaseName,
+    }).getCredentials();
+    const adminCredentials = await adminClientManager.getCredentials();
+
+    validateMysqlDatabaseName(properties.databaseName);
+    validateMysqlUsername(userCredentials.username);
 
     if (userCredentials.username === adminCredentials.username) {
         throw new Error('Cannot create user with same name as the admin user');
     }
+    return { userCredentials, adminCredentials };
+};
+
+const getMysqlPhysicalResourceId = (properties: MysqlResourceProperties, username: string): string => {
+    return [properties.dbClusterHostname, properties.databaseName, username].join('/');
+};
+
+const getMysqlUserExists = async (client: QueryClient, username: string): Promise<boolean> => {
+    const result = await client.query('SELECT 1 FROM mysql.user WHERE User = ? AND Host = ?;', [username, MYSQL_USER_HOST]);
+    return result.rows.length > 0;
+};
+
+const getMysqlDatabaseExists = async (client: QueryClient, databaseName: string): Promise<boolean> => {
+    const result = await client.query('SELECT 1 FROM information_schema.schemata WHERE schema_name = ?;', [databaseName]);
+    return result.rows.length > 0;
+};
+
+const grantMysqlDatabasePrivileges = async (client: QueryClient, databaseName: string, username: string): Promise<void> => {
+    log('Granting all privileges on database', { databaseName, username });
+    await client.query(`GRANT ALL PRIVILEGES ON ${quoteMysqlIdentifier(databaseName)}.* TO ${quoteMysqlAccount(username)};`);
+};
+
+// As getNonEmptyTables, for MySQL. The admin user can read every table.
+const getMysqlNonEmptyTables = async (client: QueryClient, databaseName: string): Promise<string[]> => {
+    const tables = await client.query<{ name: string }>("SELECT table_name AS name FROM information_schema.tables WHERE table_schema = ? AND table_type = 'BASE TABLE' ORDER BY table_name;", [
+        databaseName,
+    ]);
+
+    const nonEmptyTables: string[] = [];
+    for (const table of tables.rows) {
+        const name = `${quoteMysqlIdentifier(databaseName)}.${quoteMysqlIdentifier(table.name)}`;
+        const result = await client.query(`SELECT 1 FROM ${name} LIMIT 1;`);
+        if (result.rows.length > 0) {
+            nonEmptyTables.push(name);
+        }
+    }
+    return nonEmptyTables;
+};
+
+const getMysqlConnectionData = async (client: QueryClient, properties: MysqlResourceProperties, username: string): Promise<Record<string, string>> => {
+    const result = await client.query<{ version: string }>('SELECT VERSION() AS version;');
+    return {
+        DatabaseName: properties.databaseName,
+        Username: username,
+        Host: properties.dbClusterHostname,
+        Port: String(properties.dbClusterPort),
+        ServerVersion: result.rows[0].version,
+    };
+};
 
+const handleMysqlCreate = async (properties: MysqlResourceProperties): Promise<Response> => {
+    log('Handling MySQL create');
+    const adminClientManager = getMysqlAdminClientManager(properties);
+    const { userCredentials } = await getMysqlCredentials(properties, adminClientManager);
     const adminClient = await adminClientManager.getClient();
+    const account = quoteMysqlAccount(userCredentials.username);
+    const database = quoteMysqlIdentifier(properties.databaseName);
 
-    log('Dropping database if exists', { databaseName: event.ResourceProperties.databaseName });
-    await adminClient.query(`DROP DATABASE IF EXISTS "${event.ResourceProperties.databaseName}";`);
+    log('Creating database', {
+        databaseName: properties.databaseName,
+        username: userCredentials.username,
+        onCreateIfExists: properties.onCreateIfExists,
+    });
 
-    log('Dropping user if exists', { databaseName: event.ResourceProperties.databaseName });
-    await adminClient.query(`DROP USER IF EXISTS "${userCredentials.username}";`);
+    const created = { user: false, database: false };
+    const adopted: AdoptedObject[] = [];
 
-    await adminClient.end();
+    try {
+        const createUserQuery = `CREATE USER ${account} IDENTIFIED BY ${quoteMysqlLiteral(userCredentials.password)};`;
+        try {
+            await adminClient.query(createUserQuery);
+            created.user = true;
+        } catch (e) {
+            if (!isMysqlError(e) || e.code !== MysqlErrorCodes.CANNOT_USER || properties.onCreateIfExists === 'Fail') {
+                throw e;
+            }
+            if (properties.onCreateIfExists === 'Adopt') {
+                log('User already exists, adopting');
+                adopted.push('user');
+                await adminClient.query(`ALTER USER ${account} IDENTIFIED BY ${quoteMysqlLiteral(userCredentials.password)};`);
+            } else {
+                log('User already exists, deleting and recreating');
+                await adminClient.query(`DROP USER ${account};`);
+                await adminClient.query(createUserQuery);
+                created.user = true;
+            }
+        }
+
+        try {
+            await adminClient.query(`CREATE DATABASE ${database};`);
+            created.database = true;
+        } catch (e) {
+            if (!isMysqlError(e) || e.code !== MysqlErrorCodes.DB_CREATE_EXISTS || properties.onCreateIfExists === 'Fail') {
+                throw e;
+            }
+            if (properties.onCreateIfExists === 'Adopt') {
+                log('Database already exists, adopting');
+                adopted.push('database');
+            } else {
+                log('Database already exists, deleting and recreating');
+                await adminClient.query(`DROP DATABASE ${database};`);
+                await adminClient.query(`CREATE DATABASE ${database};`);
+                created.database = true;
+            }
+        }
+
+        await grantMysqlDatabasePrivileges(adminClient, properties.databaseName, userCredentials.username);
+
+        return {
+            PhysicalResourceId: formatPhysicalResourceId(getMysqlPhysicalResourceId(properties, userCredentials.username), adopted),
+            Data: await getMysqlConnectionData(adminClient, properties, userCredentials.username),
+        };
+    } catch (e) {
+        // As undoCreate
+        try {
+            if (created.database) {
+                log('Create failed, dropping created database', { databaseName: properties.databaseName });
+                await adminClient.query(`DROP DATABASE IF EXISTS ${database};`);
+            }
+            if (created.user) {
+                log('Create failed, dropping created user', { username: userCredentials.username });
+                await adminClient.query(`DROP USER IF EXISTS ${account};`);
+            }
+        } catch (undoError) {
+            log('Failed to undo create', { error: String(undoError) });
+        }
+        throw e;
+    } finally {
+        await adminClientManager.end();
+    }
+};
+
+const handleMysqlUpdate = async (physicalResourceId: string, properties: MysqlResourceProperties): Promise<Response> => {
+    log('Handling MySQL update');
+    const adminClientManager = getMysqlAdminClientManager(properties);
+    const { userCredentials } = await getMysqlCredentials(properties, adminClientManager);
+
+    // MySQL can't rename a database
+    const current = parsePhysicalResourceId(physicalResourceId);
+    if (current.id !== getMysqlPhysicalResourceId(properties, userCredentials.username)) {
+        throw new Error(`Cannot change database name or username`);
+    }
+
+    const adminClient = await adminClientManager.getClient();
+    const account = quoteMysqlAccount(userCredentials.username);
+
+    if (properties.onUpdateIfUserDoesNotExist === 'Create' && !(await getMysqlUserExists(adminClient, userCredentials.username))) {
+        log('Creating user, as it does not exist', { username: userCredentials.username });
+        await adminClient.query(`CREATE USER ${account} IDENTIFIED BY ${quoteMysqlLiteral(userCredentials.password)};`);
+    } else {
+        log('Not creating user', { username: userCredentials.username, onUpdateIfUserDoesNotExist: properties.onUpdateIfUserDoesNotExist });
+    }
+
+    if (properties.onUpdateSetUserPassword === 'Always') {
+        log('Setting user password', { username: userCredentials.username });
+        await adminClient.query(`ALTER USER ${account} IDENTIFIED BY ${quoteMysqlLiteral(userCredentials.password)};`);
+    } else {
+        log('Not setting user password', { username: userCredentials.username });
+    }
+
+    if (properties.onUpdateIfDatabaseDoesNotExist === 'Create' && !(await getMysqlDatabaseExists(adminClient, properties.databaseName))) {
+        log('Creating database, as it does not exist', { databaseName: properties.databaseName });
+        await adminClient.query(`CREATE DATABASE ${quoteMysqlIdentifier(properties.databaseName)};`);
+        // A new database has no privileges granted on it
+        await grantMysqlDatabasePrivileges(adminClient, properties.databaseName, userCredentials.username);
+    } else {
+        log('Not creating database', { databaseName: properties.databaseName, onUpdateIfDatabaseDoesNotExist: properties.onUpdateIfDatabaseDoesNotExist });
+    }
+
+    if (properties.onUpdateSetUserPermissions === 'Always') {
+        await grantMysqlDatabasePrivileges(adminClient, properties.databaseName, userCredentials.username);
+    } else {
+        log('Not setting user permissions', { username: userCredentials.username });
+    }
+
+    const data = await getMysqlConnectionData(adminClient, properties, userCredentials.username);
+    await adminClientManager.end();
 
     return {
-        PhysicalResourceId: event.PhysicalResourceId,
+        PhysicalResourceId: physicalResourceId,
+        Data: data,
+    };
+};
+
+const handleMysqlDelete = async (physicalResourceId: string, properties: MysqlResourceProperties): Promise<Response> => {
+    log('Handling MySQL delete');
+    if (properties.onDelete === 'Retain') {
+        log('Retaining user and database');
+        return {
+            PhysicalResourceId: physicalResourceId,
+        };
+    }
+
+    const adminClientManager = getMysqlAdminClientManager(properties);
+    const { userCredentials } = await getMysqlCredentials(properties, adminClientManager);
+    const adminClient = await adminClientManager.getClient();
+    const { adopted } = parsePhysicalResourceId(physicalResourceId);
+
+    if (adopted.includes('database')) {
+        log('Database was adopted, so not dropping it', { databaseName: properties.databaseName });
+    } else {
+        if (properties.onDelete === 'DeleteIfEmpty') {
+            const nonEmptyTables = await getMysqlNonEmptyTables(adminClient, properties.databaseName);
+            if (nonEmptyTables.length > 0) {
+                throw new Error(`Not dropping database ${properties.databaseName}, as these tables have rows: ${nonEmptyTables.join(', ')}`);
+            }
+        }
+        log('Dropping database if exists', { databaseName: properties.databaseName });
+        await adminClient.query(`DROP DATABASE IF EXISTS ${quoteMysqlIdentifier(properties.databaseName)};`);
+    }
+
+    if (adopted.includes('user')) {
+        log('User was adopted, so not dropping it', { username: userCredentials.username });
+    } else {
+        log('Dropping user if exists', { username: userCredentials.username });
+        await adminClient.query(`DROP USER IF EXISTS ${quoteMysqlAccount(userCredentials.username)};`);
+    }
+
+    await adminClientManager.end();
+
+    return {
+        PhysicalResourceId: physicalResourceId,
+    };
+};
+
+const handleMysqlEvent = async (event: MysqlEvent): Promise<Response> => {
+    if (event.RequestType === 'Create') {
+        return await handleMysqlCreate(event.ResourceProperties);
+    } else if (event.RequestType === 'Update') {
+        return await handleMysqlUpdate(event.PhysicalResourceId, event.ResourceProperties);
+    } else if (event.RequestType === 'Delete') {
+        return await handleMysqlDelete(event.PhysicalResourceId, event.ResourceProperties);
+    }
+    throw new Error('Invalid event type');
+};
+
+// The physical resource ID of a resource being created with onEvent and
+// isComplete, until isComplete has created it. If the create fails, the
+// delete that follows has nothing to do.
+const PENDING_PHYSICAL_RESOURCE_ID_PREFIX = 'pending=';
+
+// The physical resource ID of a resource whose create was only planned.
+// An update then creates it, and the delete that follows (for the
+// replaced physical resource ID) has nothing to do.
+const PLANNED_PHYSICAL_RESOURCE_ID_PREFIX = 'planned=';
+
+// Responses can be at most 4096 bytes, which the other attributes must
+// fit in as well
+const MAX_PLAN_DATA_LENGTH = 2048;
+
+// Adds the planned statements as the Plan attribute, a JSON list, cut
+// short if need be (they are all logged). As nothing has changed, the
+// physical resource ID stays as it was, or is a planned one for a create.
+const getPlanResponse = (event: { PhysicalResourceId?: string; ResourceProperties: { plan?: Plan } }, response: Response, maxPlanDataLength = MAX_PLAN_DATA_LENGTH): Response => {
+    const plan = event.ResourceProperties.plan;
+    if (!plan) {
+        return response;
+    }
+
+    let statements = plan.statements;
+    const formatPlan = (): string => JSON.stringify(statements.length < plan.statements.length ? [...statements, `-- ${plan.statements.length - statements.length} more, see the logs`] : statements);
+    while (statements.length > 0 && formatPlan().length > maxPlanDataLength) {
+        statements = statements.slice(0, -1);
+    }
+
+    return {
+        PhysicalResourceId: event.PhysicalResourceId ?? `${PLANNED_PHYSICAL_RESOURCE_ID_PREFIX}${response.PhysicalResourceId}`,
+        Data: {
+            ...response.Data,
+            Plan: formatPlan(),
+        },
     };
 };
 
+// CloudFormation records the props of an update that succeeds, and the
+// next update would compare against them as though they were applied
+// (to rename, or to undo a removed setting), so a planned update fails
+// instead, with the plan as its reason
+const failPlannedUpdate = (event: { RequestType: string; ResourceProperties: { plan?: Plan } }, response: Response): Response => {
+    if (event.RequestType === 'Update' && event.ResourceProperties.plan) {
+        throw new Error(`Update was only planned, so failing it for CloudFormation not to record its props. Plan: ${response.Data?.Plan}`);
+    }
+    return response;
+};
+
 export const handler = async (event: unknown): Promise<Response> => {
+    const pendingSchema = z.object({
+        RequestType: z.literal('Delete'),
+        PhysicalResourceId: z.string().refine((id) => id.startsWith(PENDING_PHYSICAL_RESOURCE_ID_PREFIX) || id.startsWith(PLANNED_PHYSICAL_RESOURCE_ID_PREFIX)),
+    });
+    const pendingResult = pendingSchema.safeParse(event);
+    if (pendingResult.success) {
+        log('Resource was never created, nothing to delete');
+        return {
+            PhysicalResourceId: pendingResult.data.PhysicalResourceId,
+        };
+    }
+
+    const plannedSchema = z.object({
+        RequestType: z.literal('Update'),
+        PhysicalResourceId: z.string().startsWith(PLANNED_PHYSICAL_RESOURCE_ID_PREFIX),
+    });
+    if (plannedSchema.safeParse(event).success) {
+        log('Resource was only planned, creating it');
+        return await handler({ ...(event as object), RequestType: 'Create' });
+    }
+
+    // A planned update fails (see failPlannedUpdate), and the rollback
+    // that follows has the planned props as the old props, which were
+    // never applied
+    const planRollbackSchema = z.object({
+        RequestType: z.literal('Update'),
+        ResourceProperties: z.object({ plan: z.undefined() }).passthrough(),
+        OldResourceProperties: z.object({ plan: z.literal('true') }),
+    });
+    const planRollbackResult = planRollbackSchema.safeParse(event);
+    if (planRollbackResult.success) {
+        log('Previous update was only planned, so comparing against these props');
+        return await handler({ ...(event as object), OldResourceProperties: planRollbackResult.data.ResourceProperties });
+    }
+
+    const resourceTypeSchema = z.object({
+        ResourceProperties: z.object({
+            resourceType: z.string().optional(),
+            engine: z.string().optional(),
+        }),
+    });
+    const { resourceType, engine } = resourceTypeSchema.parse(event).ResourceProperties;
+    if (resourceType === 'Role') {
+        const roleEvent = roleEventSchema.parse(event);
+        return failPlannedUpdate(roleEvent, getPlanResponse(roleEvent, await handleRoleEvent(roleEvent)));
+    }
+    if (engine === 'Mysql') {
+        return await handleMysqlEvent(mysqlEventSchema.parse(event));
+    }
+
     const validatedEvent = decodeEvent(event);
 
     if (validatedEvent.RequestType === 'Create') {
-        return await handleCreate(validatedEvent);
+        return getPlanResponse(validatedEvent, await handleCreate(validatedEvent));
     } else if (validatedEvent.RequestType === 'Update') {
-        return await handleUpdate(validatedEvent);
+        return failPlannedUpdate(validatedEvent, getPlanResponse(validatedEvent, await handleUpdate(validatedEvent)));
     } else if (validatedEvent.RequestType === 'Delete') {
-        return await handleDelete(validatedEvent);
+        return getPlanResponse(validatedEvent, await handleDelete(validatedEvent));
     }
     throw new Error('Invalid event type');
 };
+
+// With a connectionTimeout too long for a single invocation, the provider
+// calls onEvent once, and then isComplete every 30 seconds until it
+// returns IsComplete or the connectionTimeout is reached. So onEvent only
+// validates the event, and isComplete does the work once it can connect.
+export const onEvent = async (event: unknown): Promise<Response> => {
+    const requestSchema = z.object({
+        RequestId: z.string(),
+        PhysicalResourceId: z.string().optional(),
+        ResourceProperties: z.object({
+            resourceType: z.string().optional(),
+            engine: z.string().optional(),
+        }),
+    });
+    const request = requestSchema.parse(event);
+    if (request.ResourceProperties.resourceType === 'Role') {
+        roleEventSchema.parse(event);
+    } else if (request.ResourceProperties.engine === 'Mysql') {
+        mysqlEventSchema.parse(event);
+    } else {
+        decodeEvent(event);
+    }
+
+    return {
+        PhysicalResourceId: request.PhysicalResourceId ?? `${PENDING_PHYSICAL_RESOURCE_ID_PREFIX}${request.RequestId}`,
+    };
+};
+
+interface IsCompleteResponse extends Partial<Response> {
+    IsComplete: boolean;
+}
+
+export const isComplete = async (event: unknown): Promise<IsCompleteResponse> => {
+    try {
+        return {
+            IsComplete: true,
+            ...(await handler(event)),
+        };
+    } catch (e) {
+        if (!isRetryableConnectionError(e)) {
+            throw e;
+        }
+        log('Cannot connect yet, waiting', { error: String(e) });
+        return {
+            IsComplete: false,
+        };
+    }
+};
+
+// The same create, update and delete as the custom resource, for use
+// outside CloudFormation, as by the CLI (see cli/main.ts). properties are
+// as the custom resource takes them, so lists and objects are JSON, and
+// any that aren't known are an error. The physical resource ID, which
+// records the names and anything adopted, is returned by create, and
+// taken by update and delete. Without it, they work it out from the
+// properties, as though nothing had been adopted. Plan isn't cut short.
+
+const decodeProperties = (properties: unknown): CustomResourceProperties => {
+    return customResourcePropertiesSchema.strict().parse(properties);
+};
+
+const getPhysicalResourceId = async (properties: CustomResourceProperties): Promise<string> => {
+    const { username } = await getUserCredentials(properties, getUserClientManager(properties, 'postgres'));
+    return [properties.dbClusterHostname, properties.databaseName, username].join('/');
+};
+
+export const createUserAndDatabase = async (properties: unknown): Promise<Response> => {
+    const event: CreateEvent = {
+        RequestType: 'Create',
+        ResourceProperties: decodeProperties(properties),
+    };
+    return getPlanResponse(event, await handleCreate(event), Infinity);
+};
+
+// Without oldProperties, nothing is found to have been removed, such as
+// extensions with onUpdateDropRemovedExtensions
+export const updateUserAndDatabase = async (properties: unknown, physicalResourceId?: string, oldProperties: unknown = {}): Promise<Response> => {
+    const resourceProperties = decodeProperties(properties);
+    const event: UpdateEvent = {
+        RequestType: 'Update',
+        PhysicalResourceId: physicalResourceId ?? (await getPhysicalResourceId(resourceProperties)),
+        ResourceProperties: resourceProperties,
+        OldResourceProperties: oldCustomResourcePropertiesSchema.parse(oldProperties),
+    };
+    return getPlanResponse(event, await handleUpdate(event), Infinity);
+};
+
+export const deleteUserAndDatabase = async (properties: unknown, physicalResourceId?: string): Promise<Response> => {
+    const resourceProperties = decodeProperties(properties);
+    const event: DeleteEvent = {
+        RequestType: 'Delete',
+        PhysicalResourceId: physicalResourceId ?? (await getPhysicalResourceId(resourceProperties)),
+        ResourceProperties: resourceProperties,
+    };
+    return getPlanResponse(event, await handleDelete(event), Infinity);
+};
+
+// Returns the connection details and drift (see inspectDrift), as an
+// update would, without changing anything
+export const inspectUserAndDatabase = async (properties: unknown): Promise<Response> => {
+    const resourceProperties = decodeProperties(properties);
+    const adminClientManager = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: resourceProperties.dbSecretArn,
+        credentialsFormat: resourceProperties.dbCredentialsFormat,
+        dbClusterHostname: resourceProperties.dbClusterHostname,
+        dbClusterPort: resourceProperties.dbClusterPort,
+        ssl: resourceProperties.ssl,
+        connectionTimeoutSeconds: resourceProperties.connectionTimeoutSeconds,
+        dataApiResourceArn: resourceProperties.dataApiResourceArn,
+        databaseName: 'postgres',
+    });
+    const { username } = await getUserCredentials(resourceProperties, getUserClientManager(resourceProperties, 'postgres'));
+    validateDatabaseName(resourceProperties.databaseName);
+    validateUsername(username);
+
+    try {
+        const adminClient = await adminClientManager.getClient();
+        const drift = await inspectDrift(adminClient, resourceProperties, username);
+        return {
+            PhysicalResourceId: [resourceProperties.dbClusterHostname, resourceProperties.databaseName, username].join('/'),
+            Data: {
+                ...(await getConnectionData(adminClient, resourceProperties, username)),
+                ...formatDriftData(drift),
+            },
+        };
+    } finally {
+        await adminClientManager.end();
+    }
+};
@@ -0,0 +1,90 @@
+// MySQL helpers for the custom resource handler, used for
+// MysqlUserAndDatabase. Connections are made in the same way as for
+// Postgres (see LazyClientFromSecretsManager), and queries are run through
+// the same QueryClient interface, with ? for parameters.
+
+import * as mysql from 'mysql2/promise';
+import { LazyClientFromSecretsManager, QueryClient, QueryRow } from './postgres';
+
+// Relevant error codes, as mysql2 reports them, taken from
+// https://dev.mysql.com/doc/mysql-errors/8.0/en/server-error-reference.html
+export enum MysqlErrorCodes {
+    // CREATE USER of a user that exists, or DROP USER of one that doesn't
+    CANNOT_USER = 'ER_CANNOT_USER',
+    DB_CREATE_EXISTS = 'ER_DB_CREATE_EXISTS',
+    BAD_DB = 'ER_BAD_DB_ERROR',
+    ACCESS_DENIED = 'ER_ACCESS_DENIED_ERROR',
+}
+
+export interface MysqlError extends Error {
+    code: string;
+    errno: number;
+}
+
+export const isMysqlError = (e: unknown): e is MysqlError => {
+    return e instanceof Error && typeof (e as Partial<MysqlError>).code === 'string' && typeof (e as Partial<MysqlError>).errno === 'number';
+};
+
+// Users are created for connections from any host, which security groups
+// restrict instead
+export const MYSQL_USER_HOST = '%';
+
+// Quote a name (of a database or table) for use in a query. Unlike
+// mysql2's escapeId, dots are quoted rather than treated as qualifiers.
+export const quoteMysqlIdentifier = (value: string): string => {
+    return `\`${value.replace(/`/g, '``')}\``;
+};
+
+// Quote a string (such as a password) for use in a query
+export const quoteMysqlLiteral = (value: string): string => {
+    return mysql.escape(value);
+};
+
+// Quote an account, as in CREATE USER, for a username
+export const quoteMysqlAccount = (username: string): string => {
+    return `${quoteMysqlLiteral(username)}@${quoteMysqlLiteral(MYSQL_USER_HOST)}`;
+};
+
+// mysql2's query returns rows for a SELECT, and a result header for
+// anything else, which has no rows
+class MysqlClient implements QueryClient {
+    constructor(private readonly connection: mysql.Connection) {}
+
+    async query<R extends QueryRow = QueryRow>(text: string, values?: unknown[]): Promise<{ rows: R[] }> {
+        const [result] = await this.connection.query(text, values);
+        return { rows: Array.isArray(result) ? (result as unknown as R[]) : [] };
+    }
+}
+
+export class LazyMysqlClientFromSecretsManager extends LazyClientFromSecretsManager {
+    private client?: QueryClient;
+    private connection?: mysql.Connection;
+
+    async getClient(): Promise<QueryClient> {
+        if (this.client) {
+            return this.client;
+        }
+
+        const ssl = await this.getSslOptions();
+        this.connection = await this.connectWithRetries((credentials, attemptTimeoutMillis) =>
+            mysql.createConnection({
+                host: this.props.dbClusterHostname,
+                port: this.props.dbClusterPort,
+                user: credentials.username,
+                password: credentials.password,
+                database: this.props.databaseName,
+                ...(ssl ? { ssl } : {}),
+                ...(attemptTimeoutMillis ? { connectTimeout: attemptTimeoutMillis } : {}),
+            }),
+        );
+
+        this.client = new MysqlClient(this.connection);
+        return this.client;
+    }
+
+    async end(): Promise<void> {
+        if (this.connection) {
+            await this.connection.end();
+        }
+    }
+}
@@ -0,0 +1,720 @@
+// Postgres helpers shared by the custom resource handler and the
+// rotation handler
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tls from 'tls';
+import * as pg from 'pg';
+import * as rdsdata from '@aws-sdk/client-rds-data';
+import * as secretsmanager from '@aws-sdk/client-secrets-manager';
+import * as ssm from '@aws-sdk/client-ssm';
+import { z } from 'zod';
+import { validateSettingName } from '../names';
+import { log } from './log';
+
+export interface DbCredentials {
+    username: string;
+    password: string;
+}
+
+// Relevant error codes taken from
+// https://www.postgresql.org/docs/current/errcodes-appendix.html
+export enum PostgresErrorCodes {
+    DUPLICATE_DATABASE = '42P04',
+    DUPLICATE_OBJECT = '42710',
+    INSUFFICIENT_PRIVILEGE = '42501',
+    AUTHENTICATION_FAILED = '28P01',
+    CANNOT_CONNECT_NOW = '57P03',
+    INVALID_CATALOG_NAME = '3D000',
+    DEPENDENT_OBJECTS_STILL_EXIST = '2BP01',
+}
+
+export type QueryRow = Record<string, unknown>;
+
+// What the handlers need of a connection, so that the same SQL can be run
+// over a pg.Client or the RDS Data API (see DataApiClient). Parameters
+// are $1, $2 and so on.
+export interface QueryClient {
+    query<R extends QueryRow = QueryRow>(text: string, values?: unknown[]): Promise<{ rows: R[] }>;
+}
+
+export interface PostgresError extends Error {
+    code: string;
+}
+
+export const isPostgresError = (e: unknown): e is PostgresError => {
+    if (typeof e !== 'object' || e === null) {
+        return false;
+    }
+
+    // Check extends Error
+    if (!('message' in e && 'name' in e)) {
+        return false;
+    }
+
+    // Check has code
+    if (!('code' in e)) {
+        return false;
+    }
+
+    return typeof e.code === 'string';
+};
+
+// Errors connecting that may go away if retried: the cluster is starting,
+// resuming (Aurora Serverless v2 scaling from zero) or failing over
+const RETRYABLE_CONNECTION_ERROR_CODES = [
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'EHOSTUNREACH',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    PostgresErrorCodes.CANNOT_CONNECT_NOW,
+    // mysql2's code (see MysqlErrorCodes), for MysqlUserAndDatabase
+    'PROTOCOL_CONNECTION_LOST',
+] as string[];
+
+// Which are retried only once, with the credentials fetched again, in
+// case they had only just been changed (see connectWithRetries)
+const AUTHENTICATION_FAILED_ERROR_CODES = [PostgresErrorCodes.AUTHENTICATION_FAILED, 'ER_ACCESS_DENIED_ERROR'] as string[];
+
+export const isRetryableConnectionError = (e: unknown): boolean => {
+    if (isPostgresError(e)) {
+        return RETRYABLE_CONNECTION_ERROR_CODES.includes(e.code);
+    }
+    // The Data API's error while an Aurora Serverless cluster resumes
+    if (e instanceof Error && e.name === 'DatabaseResumingException') {
+        return true;
+    }
+    // pg's own errors for a connection that times out or is closed by
+    // the server have no code
+    return e instanceof Error && /^(timeout expired|Connection terminated)/.test(e.message);
+};
+
+// Quote a name (of a user, database, etc) for use in a query, as
+// Postgres' quote_ident does. Identifiers can't be passed as query
+// parameters, and nor can anything in utility statements like CREATE
+// USER, so everything interpolated into a query must go through either
+// this or quoteLiteral.
+export const quoteIdentifier = (value: string): string => {
+    return `"${value.replace(/"/g, '""')}"`;
+};
+
+// Quote a string (such as a password) for use in a query, as Postgres'
+// quote_literal does. Uses the E'' form if there are any backslashes, so
+// is correct regardless of standard_conforming_strings.
+export const quoteLiteral = (value: string): string => {
+    const escaped = value.replace(/'/g, "''");
+    if (value.includes('\\')) {
+        return `E'${escaped.replace(/\\/g, '\\\\')}'`;
+    }
+    return `'${escaped}'`;
+};
+
+// Attributes of a user, as in CREATE ROLE
+export const roleAttributesSchema = z.object({
+    connectionLimit: z.number().int().min(-1).optional(),
+    validUntil: z.string().optional(),
+    createDb: z.boolean().optional(),
+    createRole: z.boolean().optional(),
+    inherit: z.boolean().optional(),
+});
+
+export type RoleAttributes = z.infer<typeof roleAttributesSchema>;
+
+// Settings of a user, as in ALTER ROLE ... SET. A list is for settings
+// such as search_path that take a list of values.
+export const roleSettingsSchema = z.record(z.union([z.string(), z.array(z.string()).nonempty()]));
+
+export type RoleSettings = z.infer<typeof roleSettingsSchema>;
+
+// Sets every attribute, so that any not given are reset to Postgres'
+// defaults. The exception is CREATEDB, which defaults to being granted,
+// as the user creates its own database.
+export const setRoleAttributes = async (client: QueryClient, username: string, attributes: RoleAttributes): Promise<void> => {
+    const options = [
+        'LOGIN',
+        attributes.createDb ?? true ? 'CREATEDB' : 'NOCREATEDB',
+        attributes.createRole ? 'CREATEROLE' : 'NOCREATEROLE',
+        attributes.inherit ?? true ? 'INHERIT' : 'NOINHERIT',
+        `CONNECTION LIMIT ${attributes.connectionLimit ?? -1}`,
+        `VALID UNTIL ${quoteLiteral(attributes.validUntil ?? 'infinity')}`,
+    ];
+    await client.query(`ALTER ROLE ${quoteIdentifier(username)} WITH ${options.join(' ')};`);
+};
+
+// Sets the given settings, and resets the named settings that are no
+// longer given
+export const setRoleSettings = async (client: QueryClient, username: string, settings: RoleSettings, removedNames: string[]): Promise<void> => {
+    for (const name of removedNames) {
+        validateSettingName(name);
+        await client.query(`ALTER ROLE ${quoteIdentifier(username)} RESET ${name};`);
+    }
+    for (const [name, value] of Object.entries(settings)) {
+        validateSettingName(name);
+        const quotedValue = Array.isArray(value) ? value.map(quoteLiteral).join(', ') : quoteLiteral(value);
+        await client.query(`ALTER ROLE ${quoteIdentifier(username)} SET ${name} TO ${quotedValue};`);
+    }
+};
+
+// How to connect with TLS. verify-full verifies the server's certificate
+// and hostname against ca (or the certificate in caSecretArn), which
+// defaults to the RDS CA bundle. require uses TLS without verifying the
+// server, and disable doesn't use TLS.
+export const sslSchema = z.object({
+    mode: z.enum(['verify-full', 'require', 'disable']),
+    ca: z.string().optional(),
+    caSecretArn: z.string().optional(),
+});
+
+export type SslConfig = z.infer<typeof sslSchema>;
+
+// Fetched into each handler's build directory by the compile scripts,
+// from https://truststore.pki.rds.amazonaws.com/global/global-bundle.pem
+const RDS_CA_BUNDLE_PATH = path.join(__dirname, 'rds-global-bundle.pem');
+
+export interface ConnectionDetails {
+    username: string;
+    password: string;
+    host: string;
+    port: number;
+    dbname: string;
+    sslmode: string;
+}
+
+// A postgresql:// URI, as accepted by libpq and most frameworks
+export const formatConnectionUri = (details: ConnectionDetails): string => {
+    const userinfo = `${encodeURIComponent(details.username)}:${encodeURIComponent(details.password)}`;
+    return `postgresql://${userinfo}@${details.host}:${details.port}/${encodeURIComponent(details.dbname)}?sslmode=${encodeURIComponent(details.sslmode)}`;
+};
+
+// Where credentials are stored, and how to read them. store says whether
+// dbSecretArn is a Secrets Manager secret, an SSM parameter, or (for the
+// CLI, see cli/main.ts) the name of an environment variable. The value
+// is JSON, with the username and password under usernameKey and
+// passwordKey, unless plaintextUsername is set, in which case the whole
+// value is the password of that user.
+export const credentialsFormatSchema = z.object({
+    store: z.enum(['SecretsManager', 'SsmParameter', 'Environment']),
+    usernameKey: z.string().optional(),
+    passwordKey: z.string().optional(),
+    plaintextUsername: z.string().optional(),
+    // Defaults to AWSCURRENT. Only for secrets.
+    versionStage: z.string().optional(),
+});
+
+export type CredentialsFormat = z.infer<typeof credentialsFormatSchema>;
+
+// Class that lazily creates a client from a secret ARN,
+// dbClusterHostname, dbClusterPort and databaseName, and caches the client
+export interface LazyClientFromSecretsManagerProps {
+    dbSecretArn: string;
+    dbClusterHostname: string;
+    dbClusterPort: number;
+    databaseName: string;
+    // Which version of the secret to use. Defaults to AWSCURRENT.
+    secretVersionId?: string;
+    secretVersionStage?: string;
+    // Defaults to verify-full against the RDS CA bundle
+    ssl?: SslConfig;
+    // Defaults to a JSON secret with username and password keys
+    credentialsFormat?: CredentialsFormat;
+    // How long to keep retrying to connect for, with exponential backoff,
+    // while the error is retryable (see isRetryableConnectionError).
+    // Defaults to 0, a single attempt.
+    connectionTimeoutSeconds?: number;
+}
+
+export interface LazyPostgresClientFromSecretsManagerProps extends LazyClientFromSecretsManagerProps {
+    // Role to SET ROLE to once connected, to act as a user the handler
+    // can't log in as (for example, one that uses IAM authentication)
+    setRole?: string;
+    // ARN of an Aurora cluster to run queries on with the RDS Data API
+    // (see DataApiClient), rather than connecting to dbClusterHostname.
+    // dbSecretArn must then be a secret with username and password keys.
+    dataApiResourceArn?: string;
+    // In plan mode, records the statements that would change anything in
+    // the plan, rather than running them (see PlanningClient)
+    plan?: Plan;
+}
+
+// Delays between attempts to connect double from the first up to the max
+const CONNECTION_RETRY_FIRST_DELAY_MILLIS = 500;
+const CONNECTION_RETRY_MAX_DELAY_MILLIS = 10000;
+// With retries, each attempt is given at most this long
+const CONNECTION_ATTEMPT_TIMEOUT_MILLIS = 10000;
+
+const sleep = (millis: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, millis));
+
+// The Data API reports Postgres errors in the message, as
+// 'ERROR: ...; SQLState: 42710'
+const toPostgresError = (e: unknown): unknown => {
+    const match = e instanceof Error ? /SQLState: ([0-9A-Z]{5})/.exec(e.message) : null;
+    if (!match) {
+        return e;
+    }
+    return Object.assign(new Error((e as Error).message), { code: match[1] });
+};
+
+const toDataApiField = (value: unknown): rdsdata.Field => {
+    if (value === null || value === undefined) {
+        return { isNull: true };
+    } else if (typeof value === 'boolean') {
+        return { booleanValue: value };
+    } else if (typeof value === 'number') {
+        return Number.isInteger(value) ? { longValue: value } : { doubleValue: value };
+    }
+    return { stringValue: String(value) };
+};
+
+// Runs queries with the RDS Data API, so needs no network access to the
+// cluster. Each query commits on its own, so statements that can't run
+// in a transaction, like CREATE DATABASE, work as they do with pg. BEGIN,
+// COMMIT and ROLLBACK start and end a Data API transaction, which the
+// queries between them are then run in.
+class DataApiClient implements QueryClient {
+    private rdsDataClient = new rdsdata.RDSDataClient({
+        region: process.env['AWS_REGION'],
+    });
+    private transactionId?: string;
+
+    constructor(private readonly resourceArn: string, private readonly secretArn: string, private readonly database: string, private readonly connectionTimeoutSeconds: number) {}
+
+    async query<R extends QueryRow = QueryRow>(text: string, values: unknown[] = []): Promise<{ rows: R[] }> {
+        const statement = text.trim().replace(/;$/, '').toUpperCase();
+        if (statement === 'BEGIN') {
+            const response = await this.withRetries(() =>
+                this.rdsDataClient.send(new rdsdata.BeginTransactionCommand({ resourceArn: this.resourceArn, secretArn: this.secretArn, database: this.database })),
+            );
+            this.transactionId = response.transactionId;
+            return { rows: [] };
+        } else if (statement === 'COMMIT' || statement === 'ROLLBACK') {
+            const transactionId = this.transactionId;
+            this.transactionId = undefined;
+            if (statement === 'COMMIT') {
+                await this.withRetries(() => this.rdsDataClient.send(new rdsdata.CommitTransactionCommand({ resourceArn: this.resourceArn, secretArn: this.secretArn, transactionId })));
+            } else {
+                await this.withRetries(() => this.rdsDataClient.send(new rdsdata.RollbackTransactionCommand({ resourceArn: this.resourceArn, secretArn: this.secretArn, transactionId })));
+            }
+            return { rows: [] };
+        }
+
+        const response = await this.withRetries(() =>
+            this.rdsDataClient.send(
+                new rdsdata.ExecuteStatementCommand({
+                    resourceArn: this.resourceArn,
+                    secretArn: this.secretArn,
+                    database: this.database,
+                    // The Data API only has named parameters. Only replaced
+                    // when there are values, as the SQL of an init script may
+                    // have $1 in a function body.
+                    sql: values.length > 0 ? text.replace(/\$(\d+)/g, ':p$1') : text,
+                    parameters: values.map((value, index) => ({ name: `p${index + 1}`, value: toDataApiField(value) })),
+                    formatRecordsAs: 'JSON',
+                    transactionId: this.transactionId,
+                }),
+            ),
+        );
+        return { rows: JSON.parse(response.formattedRecords ?? '[]') };
+    }
+
+    // Retries while the cluster resumes, as pg retries connecting
+    private async withRetries<T>(send: () => Promise<T>): Promise<T> {
+        const deadline = Date.now() + this.connectionTimeoutSeconds * 1000;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await send();
+            } catch (e) {
+                const delay = Math.min(CONNECTION_RETRY_FIRST_DELAY_MILLIS * 2 ** attempt, CONNECTION_RETRY_MAX_DELAY_MILLIS);
+                if (!isRetryableConnectionError(e) || Date.now() + delay >= deadline) {
+                    throw toPostgresError(e);
+                }
+                log('Database is not available, retrying', { attempt, delay, error: String(e) });
+                await sleep(delay);
+            }
+        }
+    }
+}
+
+// A quoted identifier, as the handlers' statements start with
+const QUOTED_IDENTIFIER_PATTERN = '"((?:[^"]|"")*)"';
+
+const unquoteIdentifier = (value: string): string => {
+    return value.replace(/""/g, '"');
+};
+
+// The statements a plan mode handler would run, with passwords redacted,
+// along with notes (as SQL comments) on anything that limits how closely
+// the plan follows what would happen. Shared by all of the handler's
+// clients, so that one can see the roles and databases another would
+// have created.
+export class Plan {
+    readonly statements: string[] = [];
+    // The roles and databases the plan creates (true) or drops (false),
+    // which the catalog doesn't reflect
+    private readonly roles = new Map<string, boolean>();
+    private readonly databases = new Map<string, boolean>();
+    // Any connected client, to look up the others in the catalog with
+    private catalogClient?: QueryClient;
+
+    add(statement: string): void {
+        const redacted = statement.replace(/\bPASSWORD\s+E?'(?:[^']|'')*'/gi, "PASSWORD '[redacted]'");
+        log('Planned', { statement: redacted });
+        this.statements.push(redacted);
+    }
+
+    // Adds a statement that would change something. Throws the error it
+    // would fail with if it creates a role or database that exists, as
+    // the handlers act on that (see onCreateIfExists).
+    async record(statement: string): Promise<void> {
+        const create = new RegExp(`^\\s*CREATE (USER|ROLE|DATABASE) ${QUOTED_IDENTIFIER_PATTERN}`, 'i').exec(statement);
+        const drop = new RegExp(`^\\s*DROP (USER|ROLE|DATABASE) (?:IF EXISTS )?${QUOTED_IDENTIFIER_PATTERN}`, 'i').exec(statement);
+        const rename = new RegExp(`^\\s*ALTER (USER|ROLE|DATABASE) ${QUOTED_IDENTIFIER_PATTERN} RENAME TO ${QUOTED_IDENTIFIER_PATTERN}`, 'i').exec(statement);
+
+        if (create) {
+            const isDatabase = create[1].toUpperCase() === 'DATABASE';
+            const name = unquoteIdentifier(create[2]);
+            if (isDatabase ? await this.getDatabaseExists(name) : await this.getRoleExists(name)) {
+                throw Object.assign(new Error(`${isDatabase ? 'database' : 'role'} "${name}" already exists`), {
+                    code: isDatabase ? PostgresErrorCodes.DUPLICATE_DATABASE : PostgresErrorCodes.DUPLICATE_OBJECT,
+                });
+            }
+            (isDatabase ? this.databases : this.roles).set(name, true);
+        } else if (drop) {
+            (drop[1].toUpperCase() === 'DATABASE' ? this.databases : this.roles).set(unquoteIdentifier(drop[2]), false);
+        } else if (rename) {
+            const objects = rename[1].toUpperCase() === 'DATABASE' ? this.databases : this.roles;
+            objects.set(unquoteIdentifier(rename[2]), false);
+            objects.set(unquoteIdentifier(rename[3]), true);
+        }
+
+        this.add(statement);
+    }
+
+    // Whether the plan creates, drops or renames the role or database,
+    // in which case connecting as or to it would not find what the plan
+    // expects
+    isChanged(username: string, databaseName: string): boolean {
+        return this.roles.has(username) || this.databases.has(databaseName);
+    }
+
+    // Whether the plan leaves the database in place, if it creates or
+    // drops it
+    getPlannedDatabaseExists(databaseName: string): boolean | undefined {
+        return this.databases.get(databaseName);
+    }
+
+    useCatalogClient(client: QueryClient): void {
+        this.catalogClient = this.catalogClient ?? client;
+    }
+
+    releaseCatalogClient(client: QueryClient): void {
+        if (this.catalogClient === client) {
+            this.catalogClient = undefined;
+        }
+    }
+
+    private async getRoleExists(name: string): Promise<boolean> {
+        return this.roles.get(name) ?? (await this.lookUp('SELECT 1 FROM pg_roles WHERE rolname = $1;', name));
+    }
+
+    private async getDatabaseExists(name: string): Promise<boolean> {
+        return this.databases.get(name) ?? (await this.lookUp('SELECT 1 FROM pg_database WHERE datname = $1;', name));
+    }
+
+    private async lookUp(text: string, name: string): Promise<boolean> {
+        if (!this.catalogClient) {
+            return false;
+        }
+        const result = await this.catalogClient.query(text, [name]);
+        return result.rows.length > 0;
+    }
+}
+
+// Runs reads, and records everything else in the plan instead. Without
+// a client, as when connected to a database the plan creates, reads find
+// nothing.
+class PlanningClient implements QueryClient {
+    constructor(private readonly plan: Plan, private readonly client?: QueryClient) {}
+
+    async query<R extends QueryRow = QueryRow>(text: string, values?: unknown[]): Promise<{ rows: R[] }> {
+        // pg_terminate_backend is the only function with side effects
+        // that the handlers SELECT
+        if (/^\s*(SELECT|SHOW)\b/i.test(text) && !/pg_terminate_backend/i.test(text)) {
+            return this.client ? await this.client.query<R>(text, values) : { rows: [] };
+        }
+        await this.plan.record(text);
+        return { rows: [] };
+    }
+}
+
+// TLS options in the form both pg and mysql2 take, or false to not use TLS
+export type ClientSslOptions = false | { rejectUnauthorized: boolean; ca?: string | string[] };
+
+// Fetches the credentials for, and connects with retries, the Postgres
+// client below and the MySQL one (see LazyMysqlClientFromSecretsManager)
+export abstract class LazyClientFromSecretsManager<P extends LazyClientFromSecretsManagerProps = LazyClientFromSecretsManagerProps> {
+    protected props: P;
+    private credentials?: DbCredentials;
+
+    constructor(props: P) {
+        this.props = props;
+    }
+
+    // Getters for the props
+    get dbSecretArn(): string {
+        return this.props.dbSecretArn;
+    }
+
+    get dbClusterHostname(): string {
+        return this.props.dbClusterHostname;
+    }
+
+    get dbClusterPort(): number {
+        return this.props.dbClusterPort;
+    }
+
+    get databaseName(): string {
+        return this.props.databaseName;
+    }
+
+    async getCredentials(): Promise<DbCredentials> {
+        if (this.credentials) {
+            return this.credentials;
+        }
+
+        const format = this.props.credentialsFormat ?? { store: 'SecretsManager' };
+        const value = await this.getValue(format);
+
+        if (format.plaintextUsername !== undefined) {
+            this.credentials = {
+                username: format.plaintextUsername,
+                password: value,
+            };
+            return this.credentials;
+        }
+
+        const dbSecretJson = z.record(z.unknown()).parse(JSON.parse(value));
+        const usernameKey = format.usernameKey ?? 'username';
+        const passwordKey = format.passwordKey ?? 'password';
+
+        const dbSecretJsonSchema = z.object({
+            username: z.string({ required_error: `Missing ${usernameKey} in credentials` }),
+            password: z.string({ required_error: `Missing ${passwordKey} in credentials` }),
+        });
+
+        this.credentials = dbSecretJsonSchema.parse({
+            username: dbSecretJson[usernameKey],
+            password: dbSecretJson[passwordKey],
+        });
+
+        return this.credentials;
+    }
+
+    private async getValue(format: CredentialsFormat): Promise<string> {
+        if (format.store === 'SsmParameter') {
+            return await this.getParameterValue();
+        } else if (format.store === 'Environment') {
+            return this.getEnvironmentValue();
+        }
+        return await this.getSecretValue(format);
+    }
+
+    private getEnvironmentValue(): string {
+        const value = process.env[this.props.dbSecretArn];
+        if (value === undefined) {
+            throw new Error(`Environment variable ${this.props.dbSecretArn} is not set`);
+        }
+        return value;
+    }
+
+    private async getSecretValue(format: CredentialsFormat): Promise<string> {
+        const secretsManagerClient = new secretsmanager.SecretsManagerClient({
+            region: process.env['AWS_REGION'],
+        });
+
+        const dbSecret = await secretsManagerClient.send(
+            new secretsmanager.GetSecretValueCommand({
+                SecretId: this.props.dbSecretArn,
+                VersionId: this.props.secretVersionId,
+                VersionStage: this.props.secretVersionStage ?? format.versionStage,
+            }),
+        );
+
+        return dbSecret.SecretString ?? '{}';
+    }
+
+    private async getParameterValue(): Promise<string> {
+        const ssmClient = new ssm.SSMClient({
+            region: process.env['AWS_REGION'],
+        });
+
+        const parameter = await ssmClient.send(
+            new ssm.GetParameterCommand({
+                Name: this.props.dbSecretArn,
+                WithDecryption: true,
+            }),
+        );
+
+        if (parameter.Parameter?.Value === undefined) {
+            throw new Error(`Parameter ${this.props.dbSecretArn} has no value`);
+        }
+        return parameter.Parameter.Value;
+    }
+
+    abstract getClient(): Promise<QueryClient>;
+
+    abstract end(): Promise<void>;
+
+    // Calls connect until it succeeds, or fails with an error that isn't
+    // retryable, or connectionTimeoutSeconds is up. Each attempt is given
+    // a timeout, unless there is to be only one. A failure to authenticate
+    // is retried once with the credentials fetched again, rather than for
+    // as long as the timeout, and not at all if secretVersionId pins them.
+    protected async connectWithRetries<C>(connect: (credentials: DbCredentials, attemptTimeoutMillis?: number) => Promise<C>): Promise<C> {
+        const deadline = Date.now() + (this.props.connectionTimeoutSeconds ?? 0) * 1000;
+        let authenticationRetried = false;
+        for (let attempt = 0; ; attempt++) {
+            const credentials = await this.getCredentials();
+            const remainingMillis = deadline - Date.now();
+            try {
+                return await connect(credentials, remainingMillis > 0 ? Math.max(1000, Math.min(remainingMillis, CONNECTION_ATTEMPT_TIMEOUT_MILLIS)) : undefined);
+            } catch (e) {
+                const delay = Math.min(CONNECTION_RETRY_FIRST_DELAY_MILLIS * 2 ** attempt, CONNECTION_RETRY_MAX_DELAY_MILLIS);
+                const authenticationFailed = isPostgresError(e) && AUTHENTICATION_FAILED_ERROR_CODES.includes(e.code);
+                const retryable = authenticationFailed ? !authenticationRetried && this.props.secretVersionId === undefined : isRetryableConnectionError(e);
+                if (!retryable || Date.now() + delay >= deadline) {
+                    throw e;
+                }
+                log('Failed to connect, retrying', { attempt, delay, error: String(e) });
+                if (authenticationFailed) {
+                    authenticationRetried = true;
+                    this.credentials = undefined;
+                }
+                await sleep(delay);
+            }
+        }
+    }
+
+    protected async getSslOptions(): Promise<ClientSslOptions> {
+        const ssl = this.props.ssl ?? { mode: 'verify-full' };
+        if (ssl.mode === 'disable') {
+            return false;
+        } else if (ssl.mode === 'require') {
+            return {
+                rejectUnauthorized: false,
+            };
+        }
+
+        if (ssl.caSecretArn) {
+            const secretsManagerClient = new secretsmanager.SecretsManagerClient({
+                region: process.env['AWS_REGION'],
+            });
+            const caSecret = await secretsManagerClient.send(
+                new secretsmanager.GetSecretValueCommand({
+                    SecretId: ssl.caSecretArn,
+                }),
+            );
+            if (!caSecret.SecretString) {
+                throw new Error(`CA secret ${ssl.caSecretArn} has no secret string`);
+            }
+            return {
+                rejectUnauthorized: true,
+                ca: caSecret.SecretString,
+            };
+        } else if (ssl.ca) {
+            return {
+                rejectUnauthorized: true,
+                ca: ssl.ca,
+            };
+        }
+
+        // RDS Proxy endpoints have certificates from Amazon's public CAs
+        // rather than the RDS CAs, so trust those as well
+        return {
+            rejectUnauthorized: true,
+            ca: [...tls.rootCertificates, fs.readFileSync(RDS_CA_BUNDLE_PATH, 'utf8')],
+        };
+    }
+}
+
+export class LazyPostgresClientFromSecretsManager extends LazyClientFromSecretsManager<LazyPostgresClientFromSecretsManagerProps> {
+    private client?: QueryClient;
+    private pgClient?: pg.Client;
+
+    async getClient(): Promise<QueryClient> {
+        if (this.client) {
+            return this.client;
+        }
+
+        const plan = this.props.plan;
+        if (!plan) {
+            this.client = await this.connect();
+            return this.client;
+        }
+
+        // Reads see the cluster as it is, not as the plan leaves it
+        const username = this.props.setRole ?? (await this.getCredentials()).username;
+        if (plan.isChanged(username, this.props.databaseName)) {
+            log('Not connecting, as the plan changes the role or database', { username, databaseName: this.props.databaseName });
+            this.client = new PlanningClient(plan);
+            return this.client;
+        }
+
+        try {
+            this.client = new PlanningClient(plan, await this.connect());
+            plan.useCatalogClient(this.client);
+        } catch (e) {
+            // For example, a role created by another resource's plan
+            if (!isPostgresError(e) || ![PostgresErrorCodes.INVALID_CATALOG_NAME, ...AUTHENTICATION_FAILED_ERROR_CODES].includes(e.code)) {
+                throw e;
+            }
+            plan.add(`-- Cannot connect to ${this.props.databaseName} as ${username}, so reads there find nothing: ${e.message}`);
+            this.client = new PlanningClient(plan);
+        }
+        return this.client;
+    }
+
+    private async connect(): Promise<QueryClient> {
+        if (this.props.dataApiResourceArn) {
+            // The Data API reads the secret itself, and has no session
+            // to SET ROLE in
+            const format = this.props.credentialsFormat;
+            if ((format && (format.store !== 'SecretsManager' || format.usernameKey || format.passwordKey || format.plaintextUsername !== undefined)) || this.props.setRole) {
+                throw new Error('The Data API needs a secret with username and password keys, and cannot be used with Iam authentication');
+            }
+            return new DataApiClient(this.props.dataApiResourceArn, this.props.dbSecretArn, this.props.databaseName, this.props.connectionTimeoutSeconds ?? 0);
+        }
+
+        const ssl = await this.getSslOptions();
+        this.pgClient = await this.connectWithRetries(async (credentials, attemptTimeoutMillis) => {
+            // A client can't be reused once it has failed to connect
+            const client = new pg.Client({
+                host: this.props.dbClusterHostname,
+                port: this.props.dbClusterPort,
+                user: credentials.username,
+                password: credentials.password,
+                ssl,
+                database: this.props.databaseName,
+                ...(attemptTimeoutMillis ? { connectionTimeoutMillis: attemptTimeoutMillis } : {}),
+            });
+            await client.connect();
+            return client;
+        });
+
+        if (this.props.setRole) {
+            await this.pgClient.query(`SET ROLE ${quoteIdentifier(this.props.setRole)};`);
+        }
+
+        return this.pgClient;
+    }
+
+    async end(): Promise<void> {
+        if (this.client) {
+            this.props.plan?.releaseCatalogClient(this.client);
+        }
+        if (this.pgClient) {
+            await this.pgClient.end();
+        }
+    }
+}
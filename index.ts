@@ -1,30 +1,352 @@
 import { Construct } from 'constructs';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as pathlib from 'path';
 import * as cdk from 'aws-cdk-lib';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import type * as rds from 'aws-cdk-lib/aws-rds';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
-import type * as ec2 from 'aws-cdk-lib/aws-ec2';
+import type * as ssm from 'aws-cdk-lib/aws-ssm';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as cr from 'aws-cdk-lib/custom-resources';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
+import type * as kms from 'aws-cdk-lib/aws-kms';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
+import type * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3assets from 'aws-cdk-lib/aws-s3-assets';
+import { ALTERNATE_USERNAME_SUFFIX, validateDatabaseName, validateMysqlDatabaseName, validateMysqlUsername, validateSchemaName, validateSettingName, validateUsername } from './names';
+
+export interface DatabaseTargetProps {
+    // Hostname the handler connects to, and that is written to a
+    // generated user secret
+    hostname: string;
+    // Port the handler connects to, and that is written to a generated
+    // user secret
+    port: number;
+    // The handler is allowed to connect to this on the above port
+    connectable: ec2.IConnectable;
+    // The resource ID of the cluster, instance or proxy, as used in the
+    // ARNs for IAM authentication. Only needed for grantConnect.
+    resourceId?: string;
+    // ARN of the Aurora cluster. Only needed for executionMode DataApi.
+    clusterArn?: string;
+}
+
+// Where the user and database are created. Use the static methods to
+// target an RDS cluster, instance or proxy, or construct directly for
+// anything else that speaks Postgres.
+export class DatabaseTarget {
+    static fromCluster(cluster: rds.IDatabaseCluster): DatabaseTarget {
+        const target = new DatabaseTarget({
+            hostname: cluster.clusterEndpoint.hostname,
+            port: cluster.clusterEndpoint.port,
+            connectable: cluster,
+            clusterArn: cdk.Stack.of(cluster).formatArn({
+                service: 'rds',
+                resource: 'cluster',
+                resourceName: cluster.clusterIdentifier,
+                arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            }),
+        });
+        // Only read when needed, by grantConnect, as an imported cluster
+        // without one throws
+        target.getResourceId = () => cluster.clusterResourceIdentifier;
+        return target;
+    }
+
+    static fromInstance(instance: rds.IDatabaseInstance): DatabaseTarget {
+        return new DatabaseTarget({
+            hostname: instance.instanceEndpoint.hostname,
+            port: instance.instanceEndpoint.port,
+            connectable: instance,
+            resourceId: instance.instanceResourceId,
+        });
+    }
+
+    // RDS Proxy does not expose its port, so defaults to the Postgres
+    // default of 5432. Imported proxies are not connectable, so use
+    // the constructor with the proxy's security group instead.
+    static fromProxy(proxy: rds.IDatabaseProxy & ec2.IConnectable, port?: number): DatabaseTarget {
+        return new DatabaseTarget({
+            hostname: proxy.endpoint,
+            port: port ?? 5432,
+            connectable: proxy,
+            // The ARN ends with db-proxy:<resource ID>
+            resourceId: cdk.Arn.split(proxy.dbProxyArn, cdk.ArnFormat.COLON_RESOURCE_NAME).resourceName,
+        });
+    }
+
+    readonly hostname: string;
+    readonly port: number;
+    readonly connectable: ec2.IConnectable;
+    readonly clusterArn?: string;
+    private getResourceId: () => string | undefined;
+
+    constructor(props: DatabaseTargetProps) {
+        this.hostname = props.hostname;
+        this.port = props.port;
+        this.connectable = props.connectable;
+        this.getResourceId = () => props.resourceId;
+        this.clusterArn = props.clusterArn;
+    }
+
+    get resourceId(): string | undefined {
+        return this.getResourceId();
+    }
+
+    allowConnectionsFrom(connectable: ec2.IConnectable): void {
+        connectable.connections.allowTo(this.connectable, ec2.Port.tcp(this.port));
+    }
+}
+
+// A CA certificate to verify the database server against, for example
+// for a self-managed Postgres server
+export class PostgresSslCa {
+    // The secret's string is the PEM-encoded certificate(s)
+    static fromSecret(secret: secretsmanager.ISecret): PostgresSslCa {
+        return new PostgresSslCa(secret, undefined);
+    }
+
+    // Read at synth time. The certificate is passed to the rotation
+    // function in its environment, which is limited to 4KB, so use
+    // fromSecret for a bundle of certificates.
+    static fromFile(path: string): PostgresSslCa {
+        return new PostgresSslCa(undefined, fs.readFileSync(path, 'utf8'));
+    }
+
+    private constructor(readonly secret: secretsmanager.ISecret | undefined, readonly pem: string | undefined) {}
+}
+
+export interface PostgresSsl {
+    // verify-full verifies the server's certificate and hostname. require
+    // uses TLS without verifying the server, and disable doesn't use TLS.
+    // Defaults to verify-full
+    mode?: 'verify-full' | 'require' | 'disable';
+    // Defaults to the RDS CA bundle (and Amazon's public CAs, for RDS
+    // Proxy), which the handlers are built with
+    ca?: PostgresSslCa;
+}
+
+// The ssl property of the custom resources, and SSL environment variable
+// of the rotation function
+const getSslProperty = (ssl: PostgresSsl): string => {
+    return JSON.stringify({
+        mode: ssl.mode ?? 'verify-full',
+        ...(ssl.ca?.secret ? { caSecretArn: ssl.ca.secret.secretArn } : {}),
+        ...(ssl.ca?.pem ? { ca: ssl.ca.pem } : {}),
+    });
+};
+
+export interface PostgresInitScriptOptions {
+    // Owner runs the script as the database owner (the user), so that
+    // it owns whatever the script creates. Admin is for statements that
+    // need the admin user, such as granting other roles access.
+    // Defaults to Owner
+    runAs?: 'Owner' | 'Admin';
+}
+
+// SQL run once in the database, such as creating schemas or seeding
+// lookup tables, before anything else uses it (see initScripts). The
+// name identifies the script, so must be unique and never reused.
+export class PostgresInitScript {
+    static fromString(name: string, sql: string, options: PostgresInitScriptOptions = {}): PostgresInitScript {
+        return new PostgresInitScript(name, sql, undefined, options.runAs ?? 'Owner');
+    }
+
+    // Uploaded as an asset, which the handler downloads, so it must be
+    // able to reach S3 from the VPC
+    static fromFile(name: string, path: string, options: PostgresInitScriptOptions = {}): PostgresInitScript {
+        return new PostgresInitScript(name, undefined, path, options.runAs ?? 'Owner');
+    }
+
+    private constructor(readonly name: string, readonly sql: string | undefined, readonly path: string | undefined, readonly runAs: 'Owner' | 'Admin') {}
+}
+
+export interface PostgresExtension {
+    // Name of the extension, eg pgcrypto
+    name: string;
+    // Version to install, and to update to on update if a different
+    // version is installed. Defaults to the extension's default version,
+    // and to leaving the installed version alone on update.
+    version?: string;
+    // Schema to install the extension into. Defaults to the first schema
+    // on the search_path, usually public.
+    schema?: string;
+}
+
+// Default privileges on what the user creates in a schema, as set with
+// ALTER DEFAULT PRIVILEGES
+export interface PostgresDefaultPrivileges {
+    // The role to grant them to, which must already exist
+    grantee: string;
+    on: 'Tables' | 'Sequences' | 'Functions' | 'Types';
+    // For example ['SELECT']
+    privileges: Array<'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE' | 'REFERENCES' | 'TRIGGER' | 'USAGE' | 'EXECUTE'>;
+}
+
+export interface PostgresSchema {
+    name: string;
+    // Defaults to none
+    defaultPrivileges?: PostgresDefaultPrivileges[];
+}
+
+export interface PostgresUserRotation {
+    // Defaults to 30 days
+    automaticallyAfter?: cdk.Duration;
+    // SingleUser changes the password of the user. AlternatingUsers
+    // instead alternates between the user and a clone of it (named with
+    // the suffix _clone), so that the previous credentials keep working
+    // until the next rotation.
+    // Defaults to SingleUser
+    strategy?: 'SingleUser' | 'AlternatingUsers';
+}
+
+export interface PostgresUserAttributes {
+    // Maximum number of concurrent connections the user can make
+    // Defaults to -1, no limit
+    connectionLimit?: number;
+    // When the user's password stops working
+    // Defaults to never
+    validUntil?: Date;
+    // The user always has CREATEDB when it creates the database, so false
+    // only removes it afterwards
+    // Defaults to true
+    createDb?: boolean;
+    // Defaults to false
+    createRole?: boolean;
+    // Defaults to true
+    inherit?: boolean;
+}
+
+// Options for CREATE DATABASE. Encoding and locale options can only be
+// set when the database is created, so changing them (or template) on
+// update fails. The others are reconciled on update.
+export interface PostgresDatabaseOptions {
+    // For example UTF8
+    encoding?: string;
+    lcCollate?: string;
+    lcCtype?: string;
+    // icu requires Postgres 15 or later
+    localeProvider?: 'libc' | 'icu';
+    icuLocale?: string;
+    // Database to copy. The user must own it, or it must be marked as a
+    // template. Defaults to template0 if any encoding or locale options
+    // are set, as template1 may not be compatible, and otherwise
+    // template1.
+    template?: string;
+    // The user must have CREATE on the tablespace
+    // Defaults to pg_default
+    tablespace?: string;
+    // Defaults to -1, no limit
+    connectionLimit?: number;
+    // If false, nothing (including the handler) can connect to the
+    // database, so extensions can't be installed
+    // Defaults to true
+    allowConnections?: boolean;
+}
+
+// How credentials are stored in a secret or SSM parameter
+export interface PostgresSecretFormat {
+    // Defaults to username
+    usernameKey?: string;
+    // Defaults to password
+    passwordKey?: string;
+    // If set, the whole secret string (or parameter value) is the
+    // password of this user, rather than JSON
+    plaintextUsername?: string;
+    // The version of the secret to use, for example AWSPENDING. Not
+    // available for SSM parameters.
+    // Defaults to AWSCURRENT
+    versionStage?: string;
+}
+
+// The credentialsFormat custom resource property, if not the default
+const getCredentialsFormatProperty = (store: 'SecretsManager' | 'SsmParameter', format?: PostgresSecretFormat): string | undefined => {
+    if (store === 'SecretsManager' && !format) {
+        return undefined;
+    }
+    return JSON.stringify({ store, ...format });
+};
 
 export interface PostgresUserAndDatabaseProps {
-    dbCluster: rds.IDatabaseCluster;
-    dbSecret: secretsmanager.ISecret;
-    // Must have a secretString with the following keys:
+    // Exactly one of dbCluster or dbTarget must be provided. Setting
+    // dbCluster is the same as setting dbTarget to
+    // DatabaseTarget.fromCluster(dbCluster).
+    dbCluster?: rds.IDatabaseCluster;
+    dbTarget?: DatabaseTarget;
+    // The admin credentials. Exactly one of dbSecret or dbParameter (an
+    // SSM SecureString parameter) must be provided.
+    dbSecret?: secretsmanager.ISecret;
+    dbParameter?: ssm.IParameter;
+    // Defaults to JSON with username and password keys
+    dbSecretFormat?: PostgresSecretFormat;
+    // Must have a secretString with the following keys (unless
+    // userSecretFormat says otherwise):
     // - username
     // - password
     userSecret?: secretsmanager.ISecret;
+    // Only for a provided userSecret, and not available with rotation or
+    // writeConnectionDetailsToUserSecret, which need the default format
+    // Defaults to JSON with username and password keys
+    userSecretFormat?: PostgresSecretFormat;
     // Must set this if userSecret is not provided, and a password
     // will be generated with keys username and password (as well as
     // dbname, host, and port)
     username?: string;
+    // Characters to exclude from a generated password. Defaults to
+    // DEFAULT_PASSWORD_EXCLUDE_CHARS, which avoids characters that need
+    // escaping in connection strings and shells. Set to '' to use the
+    // full character set.
+    passwordExcludeCharacters?: string;
     databaseName: string;
-    vpc: ec2.IVpc;
-    // Defaults to Fail
+    // How the handlers connect to the database. With
+    // writeConnectionDetailsToUserSecret, the mode is also written to the
+    // user secret, as sslmode.
+    // Defaults to verify-full against the RDS CA bundle
+    ssl?: PostgresSsl;
+    // Defaults to the server's defaults
+    databaseOptions?: PostgresDatabaseOptions;
+    // Where the handler runs, and the rotation and password sync
+    // functions, which always connect directly. Required unless
+    // executionMode is DataApi, or a provisioner is used, whose vpc
+    // otherwise the rotation and password sync functions run in.
+    vpc?: ec2.IVpc;
+    // Vpc connects to the database from a function in vpc. DataApi instead
+    // sends the same statements through the RDS Data API, from a function
+    // outside any VPC, so needs no network path to the database. It
+    // requires an Aurora cluster with the Data API enabled, targeted with
+    // DatabaseTarget.fromCluster, and dbSecret in the default format.
+    // Defaults to Vpc
+    executionMode?: 'Vpc' | 'DataApi';
+    // Shares the handler function and provider of the provisioner, rather
+    // than creating them for this database. With executionMode Vpc, its
+    // vpc must be able to reach the database.
+    // Defaults to creating them
+    provisioner?: PostgresProvisioner;
+    // How long the handler keeps trying to connect for, with exponential
+    // backoff, for example while an Aurora Serverless v2 cluster resumes,
+    // a cluster created in the same deploy starts, or after a failover.
+    // The handler's timeout is this plus a minute. Waits of over 10
+    // minutes, up to an hour, instead use the provider's isComplete,
+    // trying every 30 seconds. Set on the provisioner instead, if using
+    // one.
+    // Defaults to 20 seconds, within a 30 second timeout
+    connectionTimeout?: cdk.Duration;
+    // For the handler, secret version and rotation functions. Set on the
+    // provisioner instead, if using one.
+    // Defaults to the Lambda defaults, in a new security group
+    functionOptions?: PostgresFunctionOptions;
+    // Defaults to Fail. If the create fails part way, whatever it created
+    // is dropped again. A user or database that is adopted is never
+    // dropped or archived on delete, whatever onDelete is.
     onCreateIfExists?: 'Fail' | 'Adopt' | 'DeleteAndRecreate';
-    // Defaults to Delete
-    onDelete?: 'Delete' | 'Retain';
+    // Defaults to Delete. DeleteForce terminates any sessions on the
+    // database before dropping it. DeleteIfEmpty fails rather than drop a
+    // database with rows in any of its tables. Archive drops nothing, but
+    // renames the database and user with an _archived_<timestamp> suffix
+    // and stops the user logging in.
+    onDelete?: 'Delete' | 'Retain' | 'DeleteForce' | 'DeleteIfEmpty' | 'Archive';
     // Defaults to Ignore
     onUpdateIfUserDoesNotExist?: 'Ignore' | 'Create';
     // Defaults to Ignore
@@ -35,63 +357,578 @@ export interface PostgresUserAndDatabaseProps {
     onUpdateSetUserPermissions?: 'Always' | 'Never';
     // Defaults to Never
     onUpdateSetDatabaseOwnership?: 'Always' | 'Never';
-    // Check for a new secret version every time the custom resource is updated
+    // Pass the secret's current version to the custom resource, so that
+    // the user is updated when the secret changes. This is only checked
+    // when the construct's secret or properties change, so that synth is
+    // repeatable, so a deploy that changes neither does not update the
+    // user. Use syncPasswordOnSecretChange for changes made to the
+    // secret outside of a deploy.
     // Defaults to false
     onUpdateCheckSecretVersion?: boolean;
+    // Set the user's password in Postgres as soon as the user secret is
+    // changed, by PutSecretValue or UpdateSecret, outside of a deploy.
+    // Uses an EventBridge rule for the CloudTrail events of those calls,
+    // so the account must have CloudTrail management events enabled.
+    // Defaults to false
+    syncPasswordOnSecretChange?: boolean;
+    // Extensions to install in the database, as the admin user. Installed
+    // on create, and on update if not already installed.
+    extensions?: Array<string | PostgresExtension>;
+    // Whether to drop extensions that have been removed from extensions
+    // Defaults to Never
+    onUpdateDropRemovedExtensions?: 'Always' | 'Never';
+    // Schemas to create in the database, owned by the user, before the
+    // extensions are installed. Reconciled on every update: missing
+    // schemas are created, and default privileges that have been removed
+    // are revoked. A schema that is removed is not dropped.
+    schemas?: PostgresSchema[];
+    // Revoke CONNECT on the database from PUBLIC, so that only the user,
+    // the admin user and roles granted it (such as PostgresDatabaseRole)
+    // can connect, and CREATE on its public schema, which PUBLIC has
+    // before Postgres 15. Applied on create and every update, after
+    // initScripts. Turning this off grants CONNECT to PUBLIC again.
+    // Defaults to false
+    revokePublicAccess?: boolean;
+    // Run in order in the database, after the extensions are installed,
+    // each in a transaction, so must not include statements that can't
+    // run in one, like CREATE DATABASE. Each is run once, on create or on
+    // the first update after it is added, and its checksum recorded in
+    // the table public.pg_user_and_database_init_scripts. Updates fail if
+    // a script that has been run has since changed.
+    initScripts?: PostgresInitScript[];
+    // What to do when databaseName or the username changes. Rename
+    // renames them in place (and resets the user's password), rather than
+    // failing. A database cannot be renamed while anything is connected
+    // to it, so TerminateSessionsAndRename first terminates those
+    // sessions.
+    // Defaults to Fail
+    onUpdateRename?: 'Fail' | 'Rename' | 'TerminateSessionsAndRename';
+    // Iam creates the user without a password, and grants it rds_iam, so
+    // that it logs in with IAM authentication tokens instead (see
+    // grantConnect). Requires username, and no user secret is used.
+    // Changing this on update switches the existing user between the two.
+    // Defaults to Password
+    authentication?: 'Password' | 'Iam';
+    // Rotate the password in userSecret on a schedule, using the
+    // credentials in dbSecret. The rotation function runs in vpc, so
+    // needs to be able to reach Secrets Manager from there.
+    // Defaults to no rotation
+    rotation?: PostgresUserRotation;
+    // Attributes of the user, set on create and reconciled on every
+    // update, so that removing one resets it to its default.
+    // Defaults to leaving the user with CREATEDB and LOGIN only.
+    userAttributes?: PostgresUserAttributes;
+    // Settings of the user, set with ALTER ROLE ... SET, for example
+    // { statement_timeout: '30s', search_path: ['$user', 'public'] }.
+    // A list is for settings that take a list of values. Settings removed
+    // on update are reset. Some settings, such as
+    // log_min_duration_statement, can only be set by the admin user if
+    // the cluster allows it.
+    userSettings?: Record<string, string | number | boolean | string[]>;
+    // Write host, port, dbname, engine, sslmode and uri (a postgresql://
+    // URI with the credentials) into the user secret, on create and
+    // update, and keep uri up to date on rotation. Not available with Iam
+    // authentication.
+    // Defaults to false
+    writeConnectionDetailsToUserSecret?: boolean;
+    // On create when adopting an existing user or database, the handler
+    // compares them to these props before changing anything, and reports
+    // any differences in attrDrift. Always does the same on every update,
+    // which tries the user's password with a connection of its own.
+    // Defaults to Never
+    onUpdateInspectDrift?: 'Always' | 'Never';
+    // Fail rather than adopt or update a user or database that doesn't
+    // match these props. Implies onUpdateInspectDrift Always. As a
+    // rollback is an update too, that fails as well until the drift is
+    // fixed.
+    // Defaults to false
+    failOnDrift?: boolean;
+    // Rather than change anything, the handler only works out the SQL it
+    // would run for this deploy's create, update or delete, and returns
+    // it (with passwords redacted) as attrPlan and a stack output. Can
+    // instead be set for a single deploy with the PLAN_CONTEXT_KEY
+    // context value, as in cdk deploy -c pg-user-and-database-cdk:plan=true.
+    // A planned update then fails, with the plan as its reason, so that
+    // CloudFormation rolls back rather than records the planned props,
+    // which the next update would compare against. Applies to any
+    // PostgresDatabaseRole of this database.
+    // Defaults to false, or the context value
+    plan?: boolean;
+}
+
+// Configuration of the Lambda functions, for example to meet networking
+// or logging rules. The VPC options only apply to the functions that
+// connect to the database.
+export interface PostgresFunctionOptions {
+    // Defaults to nodejs22.x
+    runtime?: lambda.Runtime;
+    vpcSubnets?: ec2.SubnetSelection;
+    // Defaults to a new security group for each function
+    securityGroups?: ec2.ISecurityGroup[];
+    allowPublicSubnet?: boolean;
+    architecture?: lambda.Architecture;
+    memorySize?: number;
+    logRetention?: logs.RetentionDays;
+    logGroup?: logs.ILogGroup;
+    environmentEncryption?: kms.IKey;
+    reservedConcurrentExecutions?: number;
+}
+
+// Returns the props for a function with functionOptions, in vpc if given
+const getFunctionProps = (functionOptions: PostgresFunctionOptions = {}, vpc?: ec2.IVpc): Omit<lambda.FunctionProps, 'code' | 'handler'> => {
+    const { runtime, vpcSubnets, securityGroups, allowPublicSubnet, ...options } = functionOptions;
+    return {
+        runtime: runtime ?? new lambda.Runtime('nodejs22.x', lambda.RuntimeFamily.NODEJS, { supportsInlineCode: true }),
+        ...options,
+        ...(vpc ? { vpc, vpcSubnets, securityGroups, allowPublicSubnet } : {}),
+    };
+};
+
+interface HandlerAndProvider {
+    handler: lambda.Function;
+    provider: cr.Provider;
+    // How long each call of handler keeps trying to connect for, if not
+    // the handler's default of 20 seconds
+    handlerConnectionTimeout?: cdk.Duration;
+}
+
+// The longest connectionTimeout the handler waits out itself, leaving
+// time for its work within Lambda's limit of 15 minutes
+const MAX_HANDLER_CONNECTION_TIMEOUT = cdk.Duration.minutes(10);
+// CloudFormation's limit for a custom resource to respond
+const MAX_CONNECTION_TIMEOUT = cdk.Duration.hours(1);
+// Time for the handler's work, on top of connecting
+const HANDLER_WORK_TIMEOUT = cdk.Duration.minutes(1);
+const IS_COMPLETE_QUERY_INTERVAL = cdk.Duration.seconds(30);
+const IS_COMPLETE_CONNECTION_TIMEOUT = cdk.Duration.seconds(20);
+
+const createHandlerAndProvider = (scope: Construct, props: PostgresProvisionerProps): HandlerAndProvider => {
+    const code = lambda.Code.fromAsset(pathlib.join(__dirname, 'handler'));
+    const connectionTimeout = props.connectionTimeout;
+
+    if (connectionTimeout === undefined || connectionTimeout.toSeconds() <= MAX_HANDLER_CONNECTION_TIMEOUT.toSeconds()) {
+        const handler = new lambda.Function(scope, 'OnEvent', {
+            ...getFunctionProps(props.functionOptions, props.vpc),
+            code,
+            handler: 'main.handler',
+            timeout: connectionTimeout ? connectionTimeout.plus(HANDLER_WORK_TIMEOUT) : cdk.Duration.seconds(30),
+        });
+        const provider = new cr.Provider(scope, 'Provider', {
+            onEventHandler: handler,
+        });
+        return { handler, provider, handlerConnectionTimeout: connectionTimeout };
+    }
+
+    if (connectionTimeout.toSeconds() > MAX_CONNECTION_TIMEOUT.toSeconds()) {
+        throw new Error(`connectionTimeout must be at most ${MAX_CONNECTION_TIMEOUT.toHumanString()}`);
+    }
+
+    // Longer waits use isComplete, which the provider calls repeatedly
+    // until it can connect and do the work, so onEvent only validates
+    // the event and needs no access to the database
+    const onEventHandler = new lambda.Function(scope, 'OnEvent', {
+        ...getFunctionProps(props.functionOptions),
+        code,
+        handler: 'main.onEvent',
+        timeout: cdk.Duration.seconds(30),
+    });
+    const handler = new lambda.Function(scope, 'IsComplete', {
+        ...getFunctionProps(props.functionOptions, props.vpc),
+        code,
+        handler: 'main.isComplete',
+        timeout: IS_COMPLETE_CONNECTION_TIMEOUT.plus(HANDLER_WORK_TIMEOUT),
+    });
+    const provider = new cr.Provider(scope, 'Provider', {
+        onEventHandler,
+        isCompleteHandler: handler,
+        queryInterval: IS_COMPLETE_QUERY_INTERVAL,
+        // Must be a multiple of queryInterval
+        totalTimeout: cdk.Duration.seconds(Math.ceil(connectionTimeout.toSeconds() / IS_COMPLETE_QUERY_INTERVAL.toSeconds()) * IS_COMPLETE_QUERY_INTERVAL.toSeconds()),
+    });
+    return { handler, provider, handlerConnectionTimeout: IS_COMPLETE_CONNECTION_TIMEOUT };
+};
+
+const createSecretLatestVersionHandlerAndProvider = (scope: Construct, functionOptions?: PostgresFunctionOptions): HandlerAndProvider => {
+    const handler = new lambda.Function(scope, 'OnEventSecretLatestVersion', {
+        ...getFunctionProps(functionOptions),
+        code: lambda.Code.fromAsset(pathlib.join(__dirname, 'latest_secret_version_handler')),
+        handler: 'main.handler',
+        timeout: cdk.Duration.seconds(30),
+    });
+    const provider = new cr.Provider(scope, 'SecretLatestVersionProvider', {
+        onEventHandler: handler,
+    });
+    return { handler, provider };
+};
+
+export interface PostgresProvisionerProps {
+    // Only constructs with executionMode DataApi can use a provisioner
+    // without a vpc
+    vpc?: ec2.IVpc;
+    // See connectionTimeout of PostgresUserAndDatabaseProps
+    connectionTimeout?: cdk.Duration;
+    // Also used for the rotation functions of the constructs that use
+    // this provisioner
+    functionOptions?: PostgresFunctionOptions;
+}
+
+// A handler function and provider that can be shared by many
+// PostgresUserAndDatabase constructs (see their provisioner prop), rather
+// than each creating their own. Each construct grants the handler access
+// to its secrets, and allows it to connect to its database.
+export class PostgresProvisioner extends Construct {
+    // Returns the provisioner for vpc in scope's stack, creating it if
+    // this is the first
+    static of(scope: Construct, vpc: ec2.IVpc): PostgresProvisioner {
+        const stack = cdk.Stack.of(scope);
+        const id = `PostgresProvisioner${cdk.Names.nodeUniqueId(vpc.node)}`;
+        const existing = stack.node.tryFindChild(id);
+        if (existing) {
+            return existing as PostgresProvisioner;
+        }
+        return new PostgresProvisioner(stack, id, { vpc });
+    }
+
+    readonly handler: lambda.Function;
+    readonly provider: cr.Provider;
+    readonly handlerConnectionTimeout?: cdk.Duration;
+    readonly functionOptions?: PostgresFunctionOptions;
+    // Also used for the rotation and password sync functions of the
+    // constructs that use this provisioner, unless they set their own
+    readonly vpc?: ec2.IVpc;
+    private secretLatestVersionHandlerAndProvider?: HandlerAndProvider;
+
+    constructor(scope: Construct, id: string, props: PostgresProvisionerProps) {
+        super(scope, id);
+
+        const { handler, provider, handlerConnectionTimeout } = createHandlerAndProvider(this, props);
+        this.handler = handler;
+        this.provider = provider;
+        this.handlerConnectionTimeout = handlerConnectionTimeout;
+        this.functionOptions = props.functionOptions;
+        this.vpc = props.vpc;
+    }
+
+    // Created when first needed, by a construct with
+    // onUpdateCheckSecretVersion
+    getSecretLatestVersionHandlerAndProvider(): HandlerAndProvider {
+        if (!this.secretLatestVersionHandlerAndProvider) {
+            this.secretLatestVersionHandlerAndProvider = createSecretLatestVersionHandlerAndProvider(this, this.functionOptions);
+        }
+        return this.secretLatestVersionHandlerAndProvider;
+    }
 }
 
 export const DEFAULT_PASSWORD_EXCLUDE_CHARS = ' %+~`#$&*()|[]{}:;<>?!\'/@"\\';
 
+// Context value that sets plan (see PostgresUserAndDatabaseProps) for
+// every PostgresUserAndDatabase without it. MysqlUserAndDatabase has no
+// plan mode.
+export const PLAN_CONTEXT_KEY = 'pg-user-and-database-cdk:plan';
+
+interface UserSecretProps {
+    userSecret?: secretsmanager.ISecret;
+    username?: string;
+    passwordExcludeCharacters?: string;
+    databaseName: string;
+    dbTarget: DatabaseTarget;
+}
+
+// Returns userSecret if given, otherwise generates a secret for username
+const getOrCreateUserSecret = (scope: Construct, props: UserSecretProps): secretsmanager.ISecret => {
+    if (props.userSecret) {
+        return props.userSecret;
+    } else if (props.username) {
+        return new secretsmanager.Secret(scope, 'UserSecret', {
+            generateSecretString: {
+                passwordLength: 30,
+                secretStringTemplate: JSON.stringify({
+                    username: props.username,
+                    dbname: props.databaseName,
+                    host: props.dbTarget.hostname,
+                    port: props.dbTarget.port,
+                }),
+                generateStringKey: 'password',
+                excludeCharacters: props.passwordExcludeCharacters ?? DEFAULT_PASSWORD_EXCLUDE_CHARS,
+            },
+        });
+    }
+    throw new Error('Must provide either userSecret or username');
+};
+
+interface DbCredentialsProperties {
+    dbSecretArn: string;
+    dbCredentialsFormat?: string;
+}
+
+interface DbCredentialsProps {
+    dbSecret?: secretsmanager.ISecret;
+    dbParameter?: ssm.IParameter;
+    dbSecretFormat?: PostgresSecretFormat;
+}
+
+// The custom resource properties for the admin credentials, which must
+// be in exactly one of dbSecret or dbParameter
+const getDbCredentialsProperties = (props: DbCredentialsProps): DbCredentialsProperties => {
+    if (props.dbSecret && props.dbParameter) {
+        throw new Error('Must provide only one of dbSecret or dbParameter');
+    }
+    let dbSecretArn: string;
+    if (props.dbParameter) {
+        if (props.dbSecretFormat?.versionStage) {
+            throw new Error('Cannot use a versionStage with dbParameter');
+        }
+        dbSecretArn = props.dbParameter.parameterArn;
+    } else if (props.dbSecret) {
+        dbSecretArn = props.dbSecret.secretArn;
+    } else {
+        throw new Error('Must provide either dbSecret or dbParameter');
+    }
+    const dbCredentialsFormat = getCredentialsFormatProperty(props.dbParameter ? 'SsmParameter' : 'SecretsManager', props.dbSecretFormat);
+    return {
+        dbSecretArn,
+        ...(dbCredentialsFormat ? { dbCredentialsFormat } : {}),
+    };
+};
+
+// As above, for the functions and roles of userAndDatabase, whose
+// dbSecret throws when using dbParameter
+const getUserAndDatabaseDbCredentialsProperties = (userAndDatabase: PostgresUserAndDatabase): DbCredentialsProperties => {
+    return getDbCredentialsProperties(
+        userAndDatabase.dbParameter
+            ? { dbParameter: userAndDatabase.dbParameter, dbSecretFormat: userAndDatabase.dbSecretFormat }
+            : { dbSecret: userAndDatabase.dbSecret, dbSecretFormat: userAndDatabase.dbSecretFormat },
+    );
+};
+
 export class PostgresUserAndDatabase extends Construct {
-    readonly userSecret: secretsmanager.ISecret;
+    readonly dbTarget: DatabaseTarget;
+    readonly dbParameter?: ssm.IParameter;
+    readonly dbSecretFormat?: PostgresSecretFormat;
+    readonly userSecretFormat?: PostgresSecretFormat;
+    private readonly maybeDbSecret?: secretsmanager.ISecret;
+    readonly databaseName: string;
+    readonly handler: lambda.Function;
+    readonly provider: cr.Provider;
+    readonly handlerConnectionTimeout?: cdk.Duration;
+    readonly executionMode: 'Vpc' | 'DataApi';
+    // Only set with onUpdateCheckSecretVersion
+    readonly secretLatestVersionHandler?: lambda.Function;
+    // Only set with rotation
+    readonly rotationHandler?: lambda.Function;
+    // Only set with syncPasswordOnSecretChange
+    readonly passwordSyncHandler?: lambda.Function;
+    readonly customResource: cdk.CustomResource;
+    readonly rotationStrategy?: 'SingleUser' | 'AlternatingUsers';
+    readonly authentication: 'Password' | 'Iam';
+    // Only set with Iam authentication, where it is required
+    readonly username?: string;
+    readonly ssl?: PostgresSsl;
+    private readonly maybeUserSecret?: secretsmanager.ISecret;
+    // JSON list of the names and versions of the extensions installed in
+    // the database. Only available if extensions is set.
+    readonly installedExtensions?: string;
+    readonly plan: boolean;
 
     constructor(scope: Construct, id: string, props: PostgresUserAndDatabaseProps) {
         super(scope, id);
 
+        // From -c, the context value is a string
+        const planContext: unknown = this.node.tryGetContext(PLAN_CONTEXT_KEY);
+        this.plan = props.plan ?? (planContext === true || planContext === 'true');
+
+        if (props.dbCluster && props.dbTarget) {
+            throw new Error('Must provide only one of dbCluster or dbTarget');
+        } else if (props.dbCluster) {
+            this.dbTarget = DatabaseTarget.fromCluster(props.dbCluster);
+        } else if (props.dbTarget) {
+            this.dbTarget = props.dbTarget;
+        } else {
+            throw new Error('Must provide either dbCluster or dbTarget');
+        }
+
+        if (!cdk.Token.isUnresolved(props.databaseName)) {
+            validateDatabaseName(props.databaseName);
+        }
+        if (props.username && !cdk.Token.isUnresolved(props.username)) {
+            validateUsername(props.username);
+            if (props.rotation?.strategy === 'AlternatingUsers') {
+                validateUsername(`${props.username}${ALTERNATE_USERNAME_SUFFIX}`);
+            }
+        }
+
+        for (const connectionLimit of [props.userAttributes?.connectionLimit, props.databaseOptions?.connectionLimit]) {
+            if (connectionLimit !== undefined && !cdk.Token.isUnresolved(connectionLimit) && (!Number.isInteger(connectionLimit) || connectionLimit < -1)) {
+                throw new Error(`Invalid connectionLimit ${connectionLimit}: must be an integer of at least -1`);
+            }
+        }
+        Object.keys(props.userSettings ?? {}).forEach(validateSettingName);
+
+        // Only to validate them here, before anything else
+        getDbCredentialsProperties(props);
+        if (props.userSecretFormat && !props.userSecret) {
+            throw new Error('Can only use userSecretFormat with userSecret');
+        }
+        if (props.userSecretFormat && (props.rotation || props.writeConnectionDetailsToUserSecret)) {
+            throw new Error('Cannot use userSecretFormat with rotation or writeConnectionDetailsToUserSecret');
+        }
+
+        this.maybeDbSecret = props.dbSecret;
+        this.dbParameter = props.dbParameter;
+        this.dbSecretFormat = props.dbSecretFormat;
+        this.userSecretFormat = props.userSecretFormat;
+        this.databaseName = props.databaseName;
+        this.authentication = props.authentication ?? 'Password';
+        this.ssl = props.ssl;
+
+        if (this.authentication === 'Iam') {
+            if (!props.username) {
+                throw new Error('Must provide username with Iam authentication');
+            }
+            if (props.userSecret || props.rotation || props.onUpdateCheckSecretVersion || props.writeConnectionDetailsToUserSecret || props.syncPasswordOnSecretChange) {
+                throw new Error('Cannot use userSecret, rotation, onUpdateCheckSecretVersion, writeConnectionDetailsToUserSecret or syncPasswordOnSecretChange with Iam authentication');
+            }
+            this.username = props.username;
+        }
+
         // Using a custom resource, create a user and database in the RDS cluster
         // https://docs.aws.amazon.com/cdk/api/latest/docs/custom-resources-readme.html
 
-        const handler = new lambda.Function(this, 'OnEvent', {
-            code: lambda.Code.fromAsset(pathlib.join(__dirname, 'handler')),
-            runtime: new lambda.Runtime('nodejs22.x', lambda.RuntimeFamily.NODEJS, { supportsInlineCode: true }),
-            handler: 'main.handler',
-            vpc: props.vpc,
-            timeout: cdk.Duration.seconds(30),
-        });
+        if (props.provisioner && (props.connectionTimeout || props.functionOptions)) {
+            throw new Error('Cannot use connectionTimeout or functionOptions with provisioner, set them on the provisioner instead');
+        }
+        this.executionMode = props.executionMode ?? 'Vpc';
+        if (this.executionMode === 'DataApi') {
+            if (!this.dbTarget.clusterArn) {
+                throw new Error('Must target a cluster with a clusterArn with executionMode DataApi');
+            }
+            if (props.dbParameter || props.dbSecretFormat || props.userSecretFormat || props.ssl || this.authentication === 'Iam') {
+                throw new Error('Cannot use dbParameter, dbSecretFormat, userSecretFormat, ssl or Iam authentication with executionMode DataApi');
+            }
+        } else if (props.provisioner ? !props.provisioner.handler.isBoundToVpc : !props.vpc) {
+            throw new Error('Must provide vpc, or a provisioner with a vpc, with executionMode Vpc');
+        }
+        // The rotation and password sync functions always connect
+        // directly, even with executionMode DataApi
+        const vpc = props.vpc ?? props.provisioner?.vpc;
+        if ((props.rotation || props.syncPasswordOnSecretChange) && !vpc) {
+            throw new Error('Must provide vpc, or a provisioner with a vpc, with rotation or syncPasswordOnSecretChange');
+        }
+        const { handler, provider, handlerConnectionTimeout } = props.provisioner ?? createHandlerAndProvider(this, { ...props, vpc: this.executionMode === 'DataApi' ? undefined : props.vpc });
+        const functionOptions = props.provisioner ? props.provisioner.functionOptions : props.functionOptions;
 
-        if (props.userSecret) {
-            this.userSecret = props.userSecret;
-        } else if (props.username) {
-            this.userSecret =
-                props.userSecret ??
-                new secretsmanager.Secret(this, 'UserSecret', {
-                    generateSecretString: {
-                        passwordLength: 30,
-                        secretStringTemplate: JSON.stringify({
-                            username: props.username,
-                            dbname: props.databaseName,
-                            host: props.dbCluster.clusterEndpoint.hostname,
-                            port: props.dbCluster.clusterEndpoint.port,
-                        }),
-                        generateStringKey: 'password',
-                        excludeCharacters: DEFAULT_PASSWORD_EXCLUDE_CHARS,
-                    },
-                });
+        props.dbSecret?.grantRead(handler);
+        props.dbParameter?.grantRead(handler);
+        props.ssl?.ca?.secret?.grantRead(handler);
+
+        if (this.authentication === 'Password') {
+            this.maybeUserSecret = getOrCreateUserSecret(this, {
+                ...props,
+                dbTarget: this.dbTarget,
+            });
+            this.maybeUserSecret.grantRead(handler);
+            if (props.writeConnectionDetailsToUserSecret) {
+                this.maybeUserSecret.grantWrite(handler);
+            }
+        }
+
+        if (this.executionMode === 'DataApi') {
+            handler.addToRolePolicy(
+                new iam.PolicyStatement({
+                    actions: ['rds-data:ExecuteStatement', 'rds-data:BeginTransaction', 'rds-data:CommitTransaction', 'rds-data:RollbackTransaction'],
+                    resources: [this.dbTarget.clusterArn as string],
+                }),
+            );
         } else {
-            throw new Error('Must provide either userSecret or username');
+            this.dbTarget.allowConnectionsFrom(handler);
         }
 
-        props.dbSecret.grantRead(handler);
-        this.userSecret.grantRead(handler);
+        this.rotationStrategy = props.rotation ? props.rotation.strategy ?? 'SingleUser' : undefined;
+
+        this.handler = handler;
+        this.provider = provider;
+        this.handlerConnectionTimeout = handlerConnectionTimeout;
+
+        const userCredentialsFormat = getCredentialsFormatProperty('SecretsManager', props.userSecretFormat);
+        const extensions = props.extensions?.map((extension) => (typeof extension === 'string' ? { name: extension } : extension));
+        const initScripts = props.initScripts?.map((script, index) => {
+            if (props.initScripts?.some((other, otherIndex) => other.name === script.name && otherIndex !== index)) {
+                throw new Error(`Init script names must be unique, but ${script.name} is repeated`);
+            }
+            if (script.path === undefined) {
+                return { name: script.name, runAs: script.runAs, sql: script.sql };
+            }
+            const asset = new s3assets.Asset(this, `InitScript${index}`, { path: script.path });
+            asset.grantRead(handler);
+            return { name: script.name, runAs: script.runAs, s3Bucket: asset.s3BucketName, s3Key: asset.s3ObjectKey };
+        });
+        props.schemas?.forEach((schema, index) => {
+            if (props.schemas?.some((other, otherIndex) => other.name === schema.name && otherIndex !== index)) {
+                throw new Error(`Schema names must be unique, but ${schema.name} is repeated`);
+            }
+            if (!cdk.Token.isUnresolved(schema.name)) {
+                validateSchemaName(schema.name);
+            }
+            schema.defaultPrivileges?.forEach((defaultPrivilege) => {
+                if (defaultPrivilege.privileges.length === 0) {
+                    throw new Error(`Default privileges in schema ${schema.name} must have at least one privilege`);
+                }
+            });
+        });
+        const userAttributes = props.userAttributes
+            ? {
+                  ...props.userAttributes,
+                  validUntil: props.userAttributes.validUntil?.toISOString(),
+              }
+            : undefined;
+        let userSettings: Record<string, string | string[]> | undefined = undefined;
+        if (props.userSettings) {
+            userSettings = {};
+            for (const [name, value] of Object.entries(props.userSettings)) {
+                userSettings[name] = Array.isArray(value) ? value : String(value);
+            }
+        }
+
+        const properties: Record<string, unknown> = {
+            dbClusterHostname: this.dbTarget.hostname,
+            dbClusterPort: this.dbTarget.port,
+            ...getUserAndDatabaseDbCredentialsProperties(this),
+            ...(props.ssl ? { ssl: getSslProperty(props.ssl) } : {}),
+            ...(handlerConnectionTimeout ? { connectionTimeoutSeconds: String(handlerConnectionTimeout.toSeconds()) } : {}),
+            ...(this.executionMode === 'DataApi' ? { dataApiResourceArn: this.dbTarget.clusterArn } : {}),
+            ...(this.maybeUserSecret ? { userSecretArn: this.maybeUserSecret.secretArn } : {}),
+            ...(userCredentialsFormat ? { userCredentialsFormat } : {}),
+            ...(this.username ? { username: this.username, authentication: this.authentication } : {}),
+            databaseName: props.databaseName,
+            ...(props.databaseOptions ? { databaseOptions: JSON.stringify(props.databaseOptions) } : {}),
+            onDelete: props.onDelete ?? 'Delete',
+            onCreateIfExists: props.onCreateIfExists ?? 'Fail',
+            onUpdateIfUserDoesNotExist: props.onUpdateIfUserDoesNotExist ?? 'Ignore',
+            onUpdateIfDatabaseDoesNotExist: props.onUpdateIfDatabaseDoesNotExist ?? 'Ignore',
+            onUpdateSetUserPassword: props.onUpdateSetUserPassword ?? 'Never',
+            onUpdateSetUserPermissions: props.onUpdateSetUserPermissions ?? 'Never',
+            onUpdateSetDatabaseOwnership: props.onUpdateSetDatabaseOwnership ?? 'Never',
+            ...(extensions ? { extensions: JSON.stringify(extensions) } : {}),
+            ...(initScripts ? { initScripts: cdk.Stack.of(this).toJsonString(initScripts) } : {}),
+            ...(props.schemas ? { schemas: cdk.Stack.of(this).toJsonString(props.schemas) } : {}),
+            ...(props.revokePublicAccess ? { revokePublicAccess: 'true' } : {}),
+            ...(props.onUpdateDropRemovedExtensions ? { onUpdateDropRemovedExtensions: props.onUpdateDropRemovedExtensions } : {}),
+            ...(props.onUpdateRename ? { onUpdateRename: props.onUpdateRename } : {}),
+            ...(this.rotationStrategy ? { userRotationStrategy: this.rotationStrategy } : {}),
+            ...(userAttributes ? { userAttributes: JSON.stringify(userAttributes) } : {}),
+            ...(userSettings ? { userSettings: JSON.stringify(userSettings) } : {}),
+            ...(props.writeConnectionDetailsToUserSecret ? { writeConnectionDetails: 'true' } : {}),
+            ...(props.onUpdateInspectDrift ? { onUpdateInspectDrift: props.onUpdateInspectDrift } : {}),
+            ...(props.failOnDrift ? { failOnDrift: 'true' } : {}),
+            ...(this.plan ? { plan: 'true' } : {}),
+        };
 
         let secretLatestVersion: string | undefined = undefined;
         if (props.onUpdateCheckSecretVersion) {
-            const secretLatestVersionHandler = new lambda.Function(this, 'OnEventSecretLatestVersion', {
-                code: lambda.Code.fromAsset(pathlib.join(__dirname, 'latest_secret_version_handler')),
-                runtime: new lambda.Runtime('nodejs22.x', lambda.RuntimeFamily.NODEJS, { supportsInlineCode: true }),
-                handler: 'main.handler',
-                timeout: cdk.Duration.seconds(30),
-            });
+            const { handler: secretLatestVersionHandler, provider: secretLatestVersionProvider } = props.provisioner
+                ? props.provisioner.getSecretLatestVersionHandlerAndProvider()
+                : createSecretLatestVersionHandlerAndProvider(this, functionOptions);
+            this.secretLatestVersionHandler = secretLatestVersionHandler;
 
             // Grant the function secretmanager:ListSecretVersionIds
             if (!secretLatestVersionHandler.role) {
@@ -105,15 +942,19 @@ export class PostgresUserAndDatabase extends Construct {
                 }),
             );
 
-            const secretLatestVersionProvider = new cr.Provider(this, 'SecretLatestVersionProvider', {
-                onEventHandler: secretLatestVersionHandler,
-            });
-
             const secretLatestVersionCustomResource = new cdk.CustomResource(this, 'SecretLatestVersionResource', {
                 serviceToken: secretLatestVersionProvider.serviceToken,
                 properties: {
                     secretArn: this.userSecret.secretArn,
-                    datetime: `onUpdateCheckSecretVersion: ${new Date().toISOString()}`,
+                    // So that the version is checked again whenever the
+                    // construct's properties change, not only its secret
+                    propertiesHash: cdk.Lazy.string({
+                        produce: () =>
+                            crypto
+                                .createHash('sha256')
+                                .update(JSON.stringify(cdk.Stack.of(this).resolve(properties)))
+                                .digest('hex'),
+                    }),
                 },
             });
 
@@ -124,19 +965,431 @@ export class PostgresUserAndDatabase extends Construct {
             secretLatestVersion = secretLatestVersionCustomResource.getAttString('LatestVersionId');
         }
 
-        handler.connections.allowToDefaultPort(props.dbCluster);
+        const customResource = new cdk.CustomResource(this, 'Resource', {
+            serviceToken: provider.serviceToken,
+            properties: {
+                ...properties,
+                ...(secretLatestVersion ? { secretLatestVersion } : {}),
+            },
+        });
 
-        const provider = new cr.Provider(this, 'Provider', {
-            onEventHandler: handler,
+        if (this.executionMode === 'Vpc') {
+            customResource.node.addDependency(...handler.connections.securityGroups);
+        }
+        if (this.maybeUserSecret) {
+            customResource.node.addDependency(this.maybeUserSecret);
+        }
+
+        if (extensions) {
+            this.installedExtensions = customResource.getAttString('Extensions');
+        }
+
+        if (this.plan) {
+            new cdk.CfnOutput(this, 'Plan', {
+                value: customResource.getAttString('Plan'),
+            });
+        }
+
+        this.customResource = customResource;
+
+        if (props.rotation) {
+            const dbCredentialsProperties = getUserAndDatabaseDbCredentialsProperties(this);
+            const rotationHandler = new lambda.Function(this, 'OnRotation', {
+                ...getFunctionProps(functionOptions, vpc),
+                code: lambda.Code.fromAsset(pathlib.join(__dirname, 'rotation_handler')),
+                handler: 'main.handler',
+                timeout: cdk.Duration.seconds(30),
+                environment: {
+                    DB_SECRET_ARN: dbCredentialsProperties.dbSecretArn,
+                    ...(dbCredentialsProperties.dbCredentialsFormat ? { DB_CREDENTIALS_FORMAT: dbCredentialsProperties.dbCredentialsFormat } : {}),
+                    DB_CLUSTER_HOSTNAME: this.dbTarget.hostname,
+                    DB_CLUSTER_PORT: cdk.Token.asString(this.dbTarget.port),
+                    DATABASE_NAME: props.databaseName,
+                    ROTATION_STRATEGY: props.rotation.strategy ?? 'SingleUser',
+                    PASSWORD_EXCLUDE_CHARACTERS: props.passwordExcludeCharacters ?? DEFAULT_PASSWORD_EXCLUDE_CHARS,
+                    ...(props.ssl ? { SSL: getSslProperty(props.ssl) } : {}),
+                    // So that the alternate user is created like the user
+                    ...(userAttributes ? { USER_ATTRIBUTES: JSON.stringify(userAttributes) } : {}),
+                    ...(userSettings ? { USER_SETTINGS: JSON.stringify(userSettings) } : {}),
+                },
+            });
+
+            props.dbSecret?.grantRead(rotationHandler);
+            props.dbParameter?.grantRead(rotationHandler);
+            props.ssl?.ca?.secret?.grantRead(rotationHandler);
+            this.userSecret.grantRead(rotationHandler);
+            this.userSecret.grantWrite(rotationHandler);
+            rotationHandler.addToRolePolicy(
+                new iam.PolicyStatement({
+                    actions: ['secretsmanager:GetRandomPassword'],
+                    resources: ['*'],
+                }),
+            );
+            this.dbTarget.allowConnectionsFrom(rotationHandler);
+            this.rotationHandler = rotationHandler;
+
+            // Secrets Manager rotates as soon as the schedule is created,
+            // which must be after the user exists
+            const rotationSchedule = new secretsmanager.RotationSchedule(this, 'UserSecretRotationSchedule', {
+                secret: this.userSecret,
+                rotationLambda: rotationHandler,
+                automaticallyAfter: props.rotation.automaticallyAfter ?? cdk.Duration.days(30),
+            });
+            rotationSchedule.node.addDependency(customResource);
+        }
+
+        if (props.syncPasswordOnSecretChange) {
+            const dbCredentialsProperties = getUserAndDatabaseDbCredentialsProperties(this);
+            const passwordSyncHandler = new lambda.Function(this, 'OnUserSecretChange', {
+                ...getFunctionProps(functionOptions, vpc),
+                code: lambda.Code.fromAsset(pathlib.join(__dirname, 'password_sync_handler')),
+                handler: 'main.handler',
+                timeout: cdk.Duration.seconds(30),
+                environment: {
+                    DB_SECRET_ARN: dbCredentialsProperties.dbSecretArn,
+                    ...(dbCredentialsProperties.dbCredentialsFormat ? { DB_CREDENTIALS_FORMAT: dbCredentialsProperties.dbCredentialsFormat } : {}),
+                    DB_CLUSTER_HOSTNAME: this.dbTarget.hostname,
+                    DB_CLUSTER_PORT: cdk.Token.asString(this.dbTarget.port),
+                    USER_SECRET_ARN: this.userSecret.secretArn,
+                    ...(userCredentialsFormat ? { USER_CREDENTIALS_FORMAT: userCredentialsFormat } : {}),
+                    ...(props.ssl ? { SSL: getSslProperty(props.ssl) } : {}),
+                },
+            });
+
+            props.dbSecret?.grantRead(passwordSyncHandler);
+            props.dbParameter?.grantRead(passwordSyncHandler);
+            props.ssl?.ca?.secret?.grantRead(passwordSyncHandler);
+            this.userSecret.grantRead(passwordSyncHandler);
+            this.dbTarget.allowConnectionsFrom(passwordSyncHandler);
+
+            // CloudTrail records the full ARN, which an imported secret's
+            // ARN may only be the start of
+            new events.Rule(this, 'UserSecretChangeRule', {
+                eventPattern: {
+                    source: ['aws.secretsmanager'],
+                    detailType: ['AWS API Call via CloudTrail'],
+                    detail: {
+                        eventSource: ['secretsmanager.amazonaws.com'],
+                        eventName: ['PutSecretValue', 'UpdateSecret'],
+                        responseElements: {
+                            arn: [{ prefix: this.userSecret.secretArn }],
+                        },
+                    },
+                },
+                targets: [new eventsTargets.LambdaFunction(passwordSyncHandler)],
+            });
+
+            this.passwordSyncHandler = passwordSyncHandler;
+        }
+    }
+
+    // The secret with the admin credentials. Not available if they are in
+    // an SSM parameter (see dbParameter).
+    get dbSecret(): secretsmanager.ISecret {
+        if (!this.maybeDbSecret) {
+            throw new Error('There is no dbSecret when using dbParameter');
+        }
+        return this.maybeDbSecret;
+    }
+
+    // The secret with the user's credentials. Not available with Iam
+    // authentication.
+    get userSecret(): secretsmanager.ISecret {
+        if (!this.maybeUserSecret) {
+            throw new Error('There is no user secret with Iam authentication');
+        }
+        return this.maybeUserSecret;
+    }
+
+    // Connection details, as returned by the custom resource
+    get attrDatabaseName(): string {
+        return this.customResource.getAttString('DatabaseName');
+    }
+
+    get attrUsername(): string {
+        return this.customResource.getAttString('Username');
+    }
+
+    get attrHost(): string {
+        return this.customResource.getAttString('Host');
+    }
+
+    get attrPort(): number {
+        return cdk.Token.asNumber(this.customResource.getAtt('Port'));
+    }
+
+    get attrDatabaseOid(): string {
+        return this.customResource.getAttString('DatabaseOid');
+    }
+
+    // For example 15.4
+    get attrServerVersion(): string {
+        return this.customResource.getAttString('ServerVersion');
+    }
+
+    // JSON list of differences between the user and database and the
+    // props, each with property, expected and actual keys, as found
+    // before the last create (if adopting) or update (if inspected, see
+    // onUpdateInspectDrift)
+    get attrDrift(): string {
+        return this.customResource.getAttString('Drift');
+    }
+
+    // JSON list of the statements the handler would have run, with any
+    // notes as SQL comments. Only available with plan, and only for a
+    // create or delete, as a planned update fails.
+    get attrPlan(): string {
+        if (!this.plan) {
+            throw new Error('There is no plan unless plan is set');
+        }
+        return this.customResource.getAttString('Plan');
+    }
+
+    // Allows grantee to connect as the user with IAM authentication
+    grantConnect(grantee: iam.IGrantable): iam.Grant {
+        if (this.authentication !== 'Iam' || !this.username) {
+            throw new Error('Can only grantConnect with Iam authentication');
+        }
+        if (!this.dbTarget.resourceId) {
+            throw new Error('Can only grantConnect when dbTarget has a resourceId');
+        }
+        return iam.Grant.addToPrincipal({
+            grantee,
+            actions: ['rds-db:connect'],
+            resourceArns: [
+                cdk.Stack.of(this).formatArn({
+                    service: 'rds-db',
+                    resource: 'dbuser',
+                    resourceName: `${this.dbTarget.resourceId}/${this.username}`,
+                    arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+                }),
+            ],
         });
+    }
+}
+
+export interface PostgresDatabaseRoleProps {
+    // The database to grant access to. Its handler is reused to create
+    // this role, and its user (the database owner) grants the privileges.
+    userAndDatabase: PostgresUserAndDatabase;
+    // Must have a secretString with the following keys (unless
+    // userSecretFormat says otherwise):
+    // - username
+    // - password
+    userSecret?: secretsmanager.ISecret;
+    // Only for a provided userSecret
+    // Defaults to JSON with username and password keys
+    userSecretFormat?: PostgresSecretFormat;
+    // Must set this if userSecret is not provided, and a password
+    // will be generated with keys username and password (as well as
+    // dbname, host, and port)
+    username?: string;
+    // Characters to exclude from a generated password. Defaults to
+    // DEFAULT_PASSWORD_EXCLUDE_CHARS.
+    passwordExcludeCharacters?: string;
+    // ReadOnly can SELECT from tables and sequences. ReadWrite can also
+    // INSERT, UPDATE and DELETE, and use sequences, but cannot make
+    // schema changes.
+    access: 'ReadOnly' | 'ReadWrite';
+    // Schemas to grant access to, both to the existing tables and to
+    // those created by the database owner in future. Schemas that do not
+    // exist yet are skipped, and granted on the next update.
+    // Defaults to ['public']
+    schemas?: string[];
+    // Defaults to Fail. An adopted role is never dropped on delete, but
+    // its privileges are still revoked.
+    onCreateIfExists?: 'Fail' | 'Adopt';
+    // Defaults to Delete
+    onDelete?: 'Delete' | 'Retain';
+    // Defaults to Never
+    onUpdateSetUserPassword?: 'Always' | 'Never';
+}
+
+// An additional login role for the database of a PostgresUserAndDatabase,
+// with read-only or read-write access to its tables
+export class PostgresDatabaseRole extends Construct {
+    readonly userSecret: secretsmanager.ISecret;
+
+    constructor(scope: Construct, id: string, props: PostgresDatabaseRoleProps) {
+        super(scope, id);
+
+        const userAndDatabase = props.userAndDatabase;
+
+        if (props.username && !cdk.Token.isUnresolved(props.username)) {
+            validateUsername(props.username);
+        }
+
+        this.userSecret = getOrCreateUserSecret(this, {
+            ...props,
+            databaseName: userAndDatabase.databaseName,
+            dbTarget: userAndDatabase.dbTarget,
+        });
+
+        this.userSecret.grantRead(userAndDatabase.handler);
+
+        if (props.userSecretFormat && !props.userSecret) {
+            throw new Error('Can only use userSecretFormat with userSecret');
+        }
+        if (props.userSecretFormat && userAndDatabase.executionMode === 'DataApi') {
+            throw new Error('Cannot use userSecretFormat with executionMode DataApi');
+        }
+        const ownerCredentialsFormat = getCredentialsFormatProperty('SecretsManager', userAndDatabase.userSecretFormat);
+        const userCredentialsFormat = getCredentialsFormatProperty('SecretsManager', props.userSecretFormat);
 
         const customResource = new cdk.CustomResource(this, 'Resource', {
+            serviceToken: userAndDatabase.provider.serviceToken,
+            properties: {
+                resourceType: 'Role',
+                dbClusterHostname: userAndDatabase.dbTarget.hostname,
+                dbClusterPort: userAndDatabase.dbTarget.port,
+                ...getUserAndDatabaseDbCredentialsProperties(userAndDatabase),
+                ...(userAndDatabase.ssl ? { ssl: getSslProperty(userAndDatabase.ssl) } : {}),
+                ...(userAndDatabase.handlerConnectionTimeout ? { connectionTimeoutSeconds: String(userAndDatabase.handlerConnectionTimeout.toSeconds()) } : {}),
+                ...(userAndDatabase.executionMode === 'DataApi' ? { dataApiResourceArn: userAndDatabase.dbTarget.clusterArn } : {}),
+                ...(userAndDatabase.authentication === 'Iam' ? { ownerUsername: userAndDatabase.username } : { ownerSecretArn: userAndDatabase.userSecret.secretArn }),
+                ...(ownerCredentialsFormat ? { ownerCredentialsFormat } : {}),
+                ...(userAndDatabase.rotationStrategy ? { ownerRotationStrategy: userAndDatabase.rotationStrategy } : {}),
+                userSecretArn: this.userSecret.secretArn,
+                ...(userCredentialsFormat ? { userCredentialsFormat } : {}),
+                databaseName: userAndDatabase.databaseName,
+                access: props.access,
+                schemas: JSON.stringify(props.schemas ?? ['public']),
+                onCreateIfExists: props.onCreateIfExists ?? 'Fail',
+                onDelete: props.onDelete ?? 'Delete',
+                onUpdateSetUserPassword: props.onUpdateSetUserPassword ?? 'Never',
+                ...(userAndDatabase.plan ? { plan: 'true' } : {}),
+            },
+        });
+
+        if (userAndDatabase.plan) {
+            new cdk.CfnOutput(this, 'Plan', {
+                value: customResource.getAttString('Plan'),
+            });
+        }
+
+        customResource.node.addDependency(userAndDatabase.customResource);
+        customResource.node.addDependency(this.userSecret);
+        if (userAndDatabase.handler.role) {
+            customResource.node.addDependency(userAndDatabase.handler.role);
+        }
+    }
+}
+
+export interface MysqlUserAndDatabaseProps {
+    // As for PostgresUserAndDatabaseProps, for a MySQL or Aurora MySQL
+    // cluster, instance or proxy
+    dbCluster?: rds.IDatabaseCluster;
+    dbTarget?: DatabaseTarget;
+    dbSecret?: secretsmanager.ISecret;
+    dbParameter?: ssm.IParameter;
+    dbSecretFormat?: PostgresSecretFormat;
+    userSecret?: secretsmanager.ISecret;
+    userSecretFormat?: PostgresSecretFormat;
+    username?: string;
+    passwordExcludeCharacters?: string;
+    databaseName: string;
+    // How the handler connects to the database
+    // Defaults to verify-full against the RDS CA bundle
+    ssl?: PostgresSsl;
+    // Required unless a provisioner is used
+    vpc?: ec2.IVpc;
+    // A provisioner can be shared with PostgresUserAndDatabase constructs
+    provisioner?: PostgresProvisioner;
+    connectionTimeout?: cdk.Duration;
+    functionOptions?: PostgresFunctionOptions;
+    // Defaults to Fail. An adopted user or database is never dropped on
+    // delete.
+    onCreateIfExists?: 'Fail' | 'Adopt' | 'DeleteAndRecreate';
+    // Defaults to Delete. MySQL has no equivalent of DeleteForce, and
+    // can't rename a database to Archive it.
+    onDelete?: 'Delete' | 'Retain' | 'DeleteIfEmpty';
+    // Defaults to Ignore
+    onUpdateIfUserDoesNotExist?: 'Ignore' | 'Create';
+    // Defaults to Ignore
+    onUpdateIfDatabaseDoesNotExist?: 'Ignore' | 'Create';
+    // Defaults to Never
+    onUpdateSetUserPassword?: 'Always' | 'Never';
+    // Grants the user all privileges on the database again, as MySQL has
+    // no database owners
+    // Defaults to Never
+    onUpdateSetUserPermissions?: 'Always' | 'Never';
+}
+
+// The MySQL equivalent of PostgresUserAndDatabase, creating a user
+// (for any host) and a database, and granting the user all privileges on
+// the database. Uses the same handler function, so can share a
+// provisioner.
+export class MysqlUserAndDatabase extends Construct {
+    readonly dbTarget: DatabaseTarget;
+    readonly databaseName: string;
+    readonly userSecret: secretsmanager.ISecret;
+    readonly handler: lambda.Function;
+    readonly provider: cr.Provider;
+    readonly handlerConnectionTimeout?: cdk.Duration;
+    readonly customResource: cdk.CustomResource;
+
+    constructor(scope: Construct, id: string, props: MysqlUserAndDatabaseProps) {
+        super(scope, id);
+
+        if (props.dbCluster && props.dbTarget) {
+            throw new Error('Must provide only one of dbCluster or dbTarget');
+        } else if (props.dbCluster) {
+            this.dbTarget = DatabaseTarget.fromCluster(props.dbCluster);
+        } else if (props.dbTarget) {
+            this.dbTarget = props.dbTarget;
+        } else {
+            throw new Error('Must provide either dbCluster or dbTarget');
+        }
+
+        if (!cdk.Token.isUnresolved(props.databaseName)) {
+            validateMysqlDatabaseName(props.databaseName);
+        }
+        if (props.username && !cdk.Token.isUnresolved(props.username)) {
+            validateMysqlUsername(props.username);
+        }
+
+        const dbCredentialsProperties = getDbCredentialsProperties(props);
+        if (props.userSecretFormat && !props.userSecret) {
+            throw new Error('Can only use userSecretFormat with userSecret');
+        }
+
+        if (props.provisioner && (props.connectionTimeout || props.functionOptions)) {
+            throw new Error('Cannot use connectionTimeout or functionOptions with provisioner, set them on the provisioner instead');
+        }
+        if (props.provisioner ? !props.provisioner.handler.isBoundToVpc : !props.vpc) {
+            throw new Error('Must provide vpc, or a provisioner with a vpc');
+        }
+        const { handler, provider, handlerConnectionTimeout } = props.provisioner ?? createHandlerAndProvider(this, props);
+        this.handler = handler;
+        this.provider = provider;
+        this.handlerConnectionTimeout = handlerConnectionTimeout;
+        this.databaseName = props.databaseName;
+
+        props.dbSecret?.grantRead(handler);
+        props.dbParameter?.grantRead(handler);
+        props.ssl?.ca?.secret?.grantRead(handler);
+
+        this.userSecret = getOrCreateUserSecret(this, {
+            ...props,
+            dbTarget: this.dbTarget,
+        });
+        this.userSecret.grantRead(handler);
+
+        this.dbTarget.allowConnectionsFrom(handler);
+
+        const userCredentialsFormat = getCredentialsFormatProperty('SecretsManager', props.userSecretFormat);
+
+        this.customResource = new cdk.CustomResource(this, 'Resource', {
             serviceToken: provider.serviceToken,
             properties: {
-                dbClusterHostname: props.dbCluster.clusterEndpoint.hostname,
-                dbClusterPort: props.dbCluster.clusterEndpoint.port,
-                dbSecretArn: props.dbSecret.secretArn,
+                engine: 'Mysql',
+                dbClusterHostname: this.dbTarget.hostname,
+                dbClusterPort: this.dbTarget.port,
+                ...dbCredentialsProperties,
+                ...(props.ssl ? { ssl: getSslProperty(props.ssl) } : {}),
+                ...(handlerConnectionTimeout ? { connectionTimeoutSeconds: String(handlerConnectionTimeout.toSeconds()) } : {}),
                 userSecretArn: this.userSecret.secretArn,
+                ...(userCredentialsFormat ? { userCredentialsFormat } : {}),
                 databaseName: props.databaseName,
                 onDelete: props.onDelete ?? 'Delete',
                 onCreateIfExists: props.onCreateIfExists ?? 'Fail',
@@ -144,12 +1397,32 @@ export class PostgresUserAndDatabase extends Construct {
                 onUpdateIfDatabaseDoesNotExist: props.onUpdateIfDatabaseDoesNotExist ?? 'Ignore',
                 onUpdateSetUserPassword: props.onUpdateSetUserPassword ?? 'Never',
                 onUpdateSetUserPermissions: props.onUpdateSetUserPermissions ?? 'Never',
-                onUpdateSetDatabaseOwnership: props.onUpdateSetDatabaseOwnership ?? 'Never',
-                ...(secretLatestVersion ? { secretLatestVersion } : {}),
             },
         });
 
-        customResource.node.addDependency(...handler.connections.securityGroups);
-        customResource.node.addDependency(this.userSecret);
+        this.customResource.node.addDependency(...handler.connections.securityGroups);
+        this.customResource.node.addDependency(this.userSecret);
+    }
+
+    // Connection details, as returned by the custom resource
+    get attrDatabaseName(): string {
+        return this.customResource.getAttString('DatabaseName');
+    }
+
+    get attrUsername(): string {
+        return this.customResource.getAttString('Username');
+    }
+
+    get attrHost(): string {
+        return this.customResource.getAttString('Host');
+    }
+
+    get attrPort(): number {
+        return cdk.Token.asNumber(this.customResource.getAtt('Port'));
+    }
+
+    // For example 8.0.mysql_aurora.3.05.2
+    get attrServerVersion(): string {
+        return this.customResource.getAttString('ServerVersion');
     }
 }
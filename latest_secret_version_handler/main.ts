@@ -1,6 +1,5 @@
 // A handler for the custom resource. Is called with the following properties from Cloudformation:
 // - secretArn: The ARN of the secret to identify the latest version of
-// - datetime: The datetime as a string to ensure this function is always called
 
 import * as secretsmanager from '@aws-sdk/client-secrets-manager';
 import { z } from 'zod';
@@ -14,7 +13,6 @@ interface Response {
 
 const resourcePropertiesSchema = z.object({
     secretArn: z.string(),
-    datetime: z.string(),
 });
 
 const onEventSchema = z.object({
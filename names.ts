@@ -0,0 +1,110 @@
+// Validation of database, user and setting names, shared between the construct
+// (at synth time) and the handler (at deploy time, where the username
+// may only be known from the user secret).
+
+// Postgres silently truncates identifiers longer than NAMEDATALEN - 1
+// bytes, which would leave us managing a different name to the one
+// asked for
+export const MAX_IDENTIFIER_BYTES = 63;
+
+// Databases that exist on every cluster, and that must never be owned,
+// recreated or dropped by this construct
+export const RESERVED_DATABASE_NAMES = ['postgres', 'template0', 'template1', 'rdsadmin'];
+
+// Roles that exist on every (RDS) cluster, or that are keywords in role
+// specifications
+export const RESERVED_USERNAMES = ['postgres', 'rdsadmin', 'rdsrepladmin', 'rdstopmgr', 'rds_superuser', 'public', 'current_role', 'current_user', 'session_user', 'none'];
+
+// Postgres reserves the pg_ prefix for system roles, and RDS uses rds_
+export const RESERVED_USERNAME_PREFIXES = ['pg_', 'rds_'];
+
+// With the AlternatingUsers rotation strategy, the second user is named
+// after the first with this suffix
+export const ALTERNATE_USERNAME_SUFFIX = '_clone';
+
+const validateIdentifier = (kind: string, name: string): void => {
+    if (name.length === 0) {
+        throw new Error(`Invalid ${kind} name: must not be empty`);
+    }
+    if (name.includes('\0')) {
+        throw new Error(`Invalid ${kind} name ${JSON.stringify(name)}: must not contain NUL characters`);
+    }
+    if (Buffer.byteLength(name, 'utf8') > MAX_IDENTIFIER_BYTES) {
+        throw new Error(`Invalid ${kind} name ${JSON.stringify(name)}: must be at most ${MAX_IDENTIFIER_BYTES} bytes`);
+    }
+};
+
+export const validateDatabaseName = (name: string): void => {
+    validateIdentifier('database', name);
+    if (RESERVED_DATABASE_NAMES.includes(name.toLowerCase())) {
+        throw new Error(`Invalid database name ${JSON.stringify(name)}: is reserved`);
+    }
+};
+
+export const validateUsername = (name: string): void => {
+    validateIdentifier('user', name);
+    const lowerName = name.toLowerCase();
+    if (RESERVED_USERNAMES.includes(lowerName) || RESERVED_USERNAME_PREFIXES.some((prefix) => lowerName.startsWith(prefix))) {
+        throw new Error(`Invalid username ${JSON.stringify(name)}: is reserved`);
+    }
+};
+
+// Postgres reserves the pg_ prefix for system schemas
+export const validateSchemaName = (name: string): void => {
+    validateIdentifier('schema', name);
+    const lowerName = name.toLowerCase();
+    if (lowerName.startsWith('pg_') || lowerName === 'information_schema') {
+        throw new Error(`Invalid schema name ${JSON.stringify(name)}: is reserved`);
+    }
+};
+
+// Setting names (as in ALTER ROLE ... SET) can't be quoted, as quoting
+// a custom setting such as auto_explain.log_min_duration would make it
+// a single identifier, so are restricted to what Postgres accepts
+// unquoted
+export const validateSettingName = (name: string): void => {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_$]*(\.[a-zA-Z_][a-zA-Z0-9_$]*)?$/.test(name)) {
+        throw new Error(`Invalid setting name ${JSON.stringify(name)}`);
+    }
+};
+
+// MySQL's limits are in characters rather than bytes, and it has its own
+// system databases and users. Usernames are limited to 32 characters from
+// MySQL 5.7.8, and to 16 before.
+export const MAX_MYSQL_USERNAME_LENGTH = 32;
+export const MAX_MYSQL_DATABASE_NAME_LENGTH = 64;
+
+export const RESERVED_MYSQL_DATABASE_NAMES = ['mysql', 'information_schema', 'performance_schema', 'sys', 'tmp'];
+
+export const RESERVED_MYSQL_USERNAMES = ['root', 'rdsadmin', 'rdsrepladmin', 'rdsproxyadmin', 'mysql.sys', 'mysql.session', 'mysql.infoschema'];
+
+const validateMysqlIdentifier = (kind: string, name: string, maxLength: number): void => {
+    if (name.length === 0) {
+        throw new Error(`Invalid ${kind} name: must not be empty`);
+    }
+    if (name.includes('\0')) {
+        throw new Error(`Invalid ${kind} name ${JSON.stringify(name)}: must not contain NUL characters`);
+    }
+    if ([...name].length > maxLength) {
+        throw new Error(`Invalid ${kind} name ${JSON.stringify(name)}: must be at most ${maxLength} characters`);
+    }
+};
+
+// Database names are also directory names, so can't contain path
+// separators or end with a space
+export const validateMysqlDatabaseName = (name: string): void => {
+    validateMysqlIdentifier('database', name, MAX_MYSQL_DATABASE_NAME_LENGTH);
+    if (/[/\\.]/.test(name) || name.endsWith(' ')) {
+        throw new Error(`Invalid database name ${JSON.stringify(name)}: must not contain /, \\ or ., or end with a space`);
+    }
+    if (RESERVED_MYSQL_DATABASE_NAMES.includes(name.toLowerCase())) {
+        throw new Error(`Invalid database name ${JSON.stringify(name)}: is reserved`);
+    }
+};
+
+export const validateMysqlUsername = (name: string): void => {
+    validateMysqlIdentifier('user', name, MAX_MYSQL_USERNAME_LENGTH);
+    if (RESERVED_MYSQL_USERNAMES.includes(name.toLowerCase())) {
+        throw new Error(`Invalid username ${JSON.stringify(name)}: is reserved`);
+    }
+};
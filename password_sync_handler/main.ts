@@ -0,0 +1,107 @@
+// Sets the user's password in Postgres to the one in the user secret, when
+// the secret is changed outside of a deploy. Is called by an EventBridge
+// rule with the CloudTrail event for a PutSecretValue or UpdateSecret call
+// on the user secret. Is configured with the following environment
+// variables:
+// - DB_SECRET_ARN: ARN of the RDS cluster secret (or SSM parameter), used
+//   to set the password
+// - DB_CREDENTIALS_FORMAT: optional JSON format of DB_SECRET_ARN
+// - DB_CLUSTER_HOSTNAME: hostname of the RDS cluster, instance or proxy
+// - DB_CLUSTER_PORT: port of the RDS cluster, instance or proxy
+// - USER_SECRET_ARN: ARN of the user secret
+// - USER_CREDENTIALS_FORMAT: optional JSON format of USER_SECRET_ARN
+// - SSL: optional JSON TLS settings, defaulting to verify-full
+
+import { z } from 'zod';
+import { validateUsername } from '../names';
+import { log } from '../handler/log';
+import { credentialsFormatSchema, LazyPostgresClientFromSecretsManager, quoteIdentifier, quoteLiteral, sslSchema } from '../handler/postgres';
+
+const eventSchema = z.object({
+    detail: z.object({
+        eventName: z.string(),
+        requestParameters: z
+            .object({
+                versionStages: z.array(z.string()).optional(),
+            })
+            .nullable()
+            .optional(),
+    }),
+});
+
+const environmentSchema = z.object({
+    DB_SECRET_ARN: z.string(),
+    DB_CREDENTIALS_FORMAT: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(credentialsFormatSchema)
+        .optional(),
+    DB_CLUSTER_HOSTNAME: z.string(),
+    DB_CLUSTER_PORT: z.string().regex(/^\d+$/).transform(Number),
+    USER_SECRET_ARN: z.string(),
+    USER_CREDENTIALS_FORMAT: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(credentialsFormatSchema)
+        .optional(),
+    SSL: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(sslSchema)
+        .optional(),
+});
+
+// Within the function's timeout of 30 seconds
+const CONNECTION_TIMEOUT_SECONDS = 20;
+
+export const handler = async (event: unknown): Promise<void> => {
+    const validatedEvent = eventSchema.parse(event);
+    const env = environmentSchema.parse(process.env);
+    log('Handling secret change', { eventName: validatedEvent.detail.eventName });
+
+    // Rotation puts the new version as AWSPENDING, and sets the password
+    // itself, so setting the current password here would undo that
+    const versionStages = validatedEvent.detail.requestParameters?.versionStages;
+    if (versionStages && !versionStages.includes('AWSCURRENT')) {
+        log('Not a change to the current version, ignoring', { versionStages });
+        return;
+    }
+
+    const userClientManager = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: env.USER_SECRET_ARN,
+        credentialsFormat: env.USER_CREDENTIALS_FORMAT,
+        dbClusterHostname: env.DB_CLUSTER_HOSTNAME,
+        dbClusterPort: env.DB_CLUSTER_PORT,
+        ssl: env.SSL,
+        databaseName: 'postgres',
+    });
+    const userCredentials = await userClientManager.getCredentials();
+    validateUsername(userCredentials.username);
+
+    const adminClientManager = new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: env.DB_SECRET_ARN,
+        credentialsFormat: env.DB_CREDENTIALS_FORMAT,
+        dbClusterHostname: env.DB_CLUSTER_HOSTNAME,
+        dbClusterPort: env.DB_CLUSTER_PORT,
+        ssl: env.SSL,
+        connectionTimeoutSeconds: CONNECTION_TIMEOUT_SECONDS,
+        databaseName: 'postgres',
+    });
+    const adminCredentials = await adminClientManager.getCredentials();
+    if (userCredentials.username === adminCredentials.username) {
+        throw new Error('Cannot sync the password of the admin user');
+    }
+
+    const adminClient = await adminClientManager.getClient();
+
+    // A change of username is left to the next deploy (see onUpdateRename)
+    const roleResult = await adminClient.query('SELECT 1 FROM pg_roles WHERE rolname = $1;', [userCredentials.username]);
+    if (roleResult.rows.length === 0) {
+        log('User does not exist, not setting password', { username: userCredentials.username });
+    } else {
+        log('Setting password', { username: userCredentials.username });
+        await adminClient.query(`ALTER USER ${quoteIdentifier(userCredentials.username)} WITH PASSWORD ${quoteLiteral(userCredentials.password)};`);
+    }
+
+    await adminClientManager.end();
+};
@@ -0,0 +1,290 @@
+// A Secrets Manager rotation handler for the user secret. Is called by
+// Secrets Manager with the secret ARN, the version (ClientRequestToken)
+// being rotated to, and one of the four rotation steps. Is configured
+// with the following environment variables:
+// - DB_SECRET_ARN: ARN of the RDS cluster secret (or SSM parameter), used
+//   to set passwords
+// - DB_CREDENTIALS_FORMAT: optional JSON format of DB_SECRET_ARN
+// - DB_CLUSTER_HOSTNAME: hostname of the RDS cluster, instance or proxy
+// - DB_CLUSTER_PORT: port of the RDS cluster, instance or proxy
+// - DATABASE_NAME: name of the database, used to test the new password
+// - ROTATION_STRATEGY: SingleUser or AlternatingUsers
+// - PASSWORD_EXCLUDE_CHARACTERS: characters to exclude from new passwords
+// - SSL: optional JSON TLS settings, defaulting to verify-full
+// - USER_ATTRIBUTES: optional JSON attributes to create the alternate user with
+// - USER_SETTINGS: optional JSON settings to create the alternate user with
+//
+// See https://docs.aws.amazon.com/secretsmanager/latest/userguide/rotate-secrets_lambda-functions.html
+
+import * as secretsmanager from '@aws-sdk/client-secrets-manager';
+import { z } from 'zod';
+import { ALTERNATE_USERNAME_SUFFIX, validateUsername } from '../names';
+import { log } from '../handler/log';
+import {
+    credentialsFormatSchema,
+    formatConnectionUri,
+    isPostgresError,
+    LazyPostgresClientFromSecretsManager,
+    PostgresErrorCodes,
+    quoteIdentifier,
+    quoteLiteral,
+    roleAttributesSchema,
+    roleSettingsSchema,
+    setRoleAttributes,
+    setRoleSettings,
+    sslSchema,
+} from '../handler/postgres';
+
+const eventSchema = z.object({
+    SecretId: z.string(),
+    ClientRequestToken: z.string(),
+    Step: z.enum(['createSecret', 'setSecret', 'testSecret', 'finishSecret']),
+});
+
+type Event = z.infer<typeof eventSchema>;
+
+const environmentSchema = z.object({
+    DB_SECRET_ARN: z.string(),
+    DB_CREDENTIALS_FORMAT: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(credentialsFormatSchema)
+        .optional(),
+    DB_CLUSTER_HOSTNAME: z.string(),
+    DB_CLUSTER_PORT: z.string().regex(/^\d+$/).transform(Number),
+    DATABASE_NAME: z.string(),
+    ROTATION_STRATEGY: z.enum(['SingleUser', 'AlternatingUsers']),
+    PASSWORD_EXCLUDE_CHARACTERS: z.string().default(''),
+    SSL: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(sslSchema)
+        .optional(),
+    USER_ATTRIBUTES: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(roleAttributesSchema)
+        .optional(),
+    USER_SETTINGS: z
+        .string()
+        .transform((value) => JSON.parse(value))
+        .pipe(roleSettingsSchema)
+        .optional(),
+});
+
+type Environment = z.infer<typeof environmentSchema>;
+
+const secretJsonSchema = z
+    .object({
+        username: z.string(),
+        password: z.string(),
+    })
+    .passthrough();
+
+type SecretJson = z.infer<typeof secretJsonSchema>;
+
+// The keys written by the custom resource's writeConnectionDetails
+const connectionDetailsSchema = z.object({
+    host: z.string(),
+    port: z.number(),
+    dbname: z.string(),
+    sslmode: z.string(),
+    uri: z.string(),
+});
+
+const secretsManagerClient = new secretsmanager.SecretsManagerClient({
+    region: process.env['AWS_REGION'],
+});
+
+const getSecretJson = async (secretId: string, versionStage: string, versionId?: string): Promise<SecretJson> => {
+    const response = await secretsManagerClient.send(
+        new secretsmanager.GetSecretValueCommand({
+            SecretId: secretId,
+            VersionId: versionId,
+            VersionStage: versionStage,
+        }),
+    );
+    return secretJsonSchema.parse(JSON.parse(response.SecretString ?? '{}'));
+};
+
+// For AlternatingUsers, switches between the user and its clone
+const getAlternateUsername = (username: string): string => {
+    if (username.endsWith(ALTERNATE_USERNAME_SUFFIX)) {
+        return username.slice(0, -ALTERNATE_USERNAME_SUFFIX.length);
+    }
+    return `${username}${ALTERNATE_USERNAME_SUFFIX}`;
+};
+
+const getClientManager = (env: Environment, secretId: string, databaseName: string, versionStage?: string, versionId?: string): LazyPostgresClientFromSecretsManager => {
+    return new LazyPostgresClientFromSecretsManager({
+        dbSecretArn: secretId,
+        dbClusterHostname: env.DB_CLUSTER_HOSTNAME,
+        dbClusterPort: env.DB_CLUSTER_PORT,
+        ssl: env.SSL,
+        databaseName,
+        secretVersionId: versionId,
+        secretVersionStage: versionStage,
+        // The user secret is always JSON with username and password keys
+        credentialsFormat: secretId === env.DB_SECRET_ARN ? env.DB_CREDENTIALS_FORMAT : undefined,
+    });
+};
+
+const createSecret = async (event: Event, env: Environment): Promise<void> => {
+    const current = await getSecretJson(event.SecretId, 'AWSCURRENT');
+
+    try {
+        await getSecretJson(event.SecretId, 'AWSPENDING', event.ClientRequestToken);
+        log('Pending secret already exists');
+        return;
+    } catch (e) {
+        if (!(e instanceof secretsmanager.ResourceNotFoundException)) {
+            throw e;
+        }
+    }
+
+    const username = env.ROTATION_STRATEGY === 'AlternatingUsers' ? getAlternateUsername(current.username) : current.username;
+    validateUsername(username);
+
+    const passwordResponse = await secretsManagerClient.send(
+        new secretsmanager.GetRandomPasswordCommand({
+            PasswordLength: 30,
+            ExcludeCharacters: env.PASSWORD_EXCLUDE_CHARACTERS,
+        }),
+    );
+
+    const password = passwordResponse.RandomPassword;
+    if (!password) {
+        throw new Error('No random password returned');
+    }
+
+    // Keep the URI in step with the new credentials
+    const connectionDetails = connectionDetailsSchema.safeParse(current);
+    const uri = connectionDetails.success ? formatConnectionUri({ ...connectionDetails.data, username, password }) : undefined;
+
+    log('Creating pending secret', { username });
+    await secretsManagerClient.send(
+        new secretsmanager.PutSecretValueCommand({
+            SecretId: event.SecretId,
+            ClientRequestToken: event.ClientRequestToken,
+            SecretString: JSON.stringify({
+                ...current,
+                username,
+                password,
+                ...(uri ? { uri } : {}),
+            }),
+            VersionStages: ['AWSPENDING'],
+        }),
+    );
+};
+
+const setSecret = async (event: Event, env: Environment): Promise<void> => {
+    const current = await getSecretJson(event.SecretId, 'AWSCURRENT');
+    const pending = await getSecretJson(event.SecretId, 'AWSPENDING', event.ClientRequestToken);
+
+    const adminClientManager = getClientManager(env, env.DB_SECRET_ARN, 'postgres');
+    const adminCredentials = await adminClientManager.getCredentials();
+    if (pending.username === adminCredentials.username) {
+        throw new Error('Cannot rotate the password of the admin user');
+    }
+
+    const adminClient = await adminClientManager.getClient();
+    const user = quoteIdentifier(pending.username);
+
+    if (pending.username !== current.username) {
+        log('Creating alternate user if it does not exist', { username: pending.username });
+        try {
+            await adminClient.query(`CREATE ROLE ${user} WITH LOGIN PASSWORD ${quoteLiteral(pending.password)};`);
+        } catch (e) {
+            if (!isPostgresError(e) || e.code !== PostgresErrorCodes.DUPLICATE_OBJECT) {
+                throw e;
+            }
+            log('Alternate user already exists');
+        }
+
+        // Whether or not the clone was just created, as a previous attempt
+        // may have failed after creating it. The clone is a member of the
+        // original user, so has all of its privileges, including over
+        // anything it owns.
+        await adminClient.query(`GRANT ${quoteIdentifier(getAlternateUsername(pending.username))} TO ${user};`);
+        if (env.USER_ATTRIBUTES) {
+            await setRoleAttributes(adminClient, pending.username, env.USER_ATTRIBUTES);
+        }
+        if (env.USER_SETTINGS) {
+            await setRoleSettings(adminClient, pending.username, env.USER_SETTINGS, []);
+        }
+    }
+
+    log('Setting password', { username: pending.username });
+    await adminClient.query(`ALTER USER ${user} WITH PASSWORD ${quoteLiteral(pending.password)};`);
+
+    await adminClientManager.end();
+};
+
+const testSecret = async (event: Event, env: Environment): Promise<void> => {
+    const pendingClientManager = getClientManager(env, event.SecretId, env.DATABASE_NAME, 'AWSPENDING', event.ClientRequestToken);
+    const pendingClient = await pendingClientManager.getClient();
+    await pendingClient.query('SELECT NOW();');
+    await pendingClientManager.end();
+    log('Pending secret can connect');
+};
+
+const finishSecret = async (event: Event): Promise<void> => {
+    const description = await secretsManagerClient.send(
+        new secretsmanager.DescribeSecretCommand({
+            SecretId: event.SecretId,
+        }),
+    );
+
+    const versions = description.VersionIdsToStages ?? {};
+    const currentVersionId = Object.keys(versions).find((versionId) => versions[versionId].includes('AWSCURRENT'));
+    if (currentVersionId === event.ClientRequestToken) {
+        log('Version is already current');
+        return;
+    }
+
+    log('Making version current', { versionId: event.ClientRequestToken, previousVersionId: currentVersionId });
+    await secretsManagerClient.send(
+        new secretsmanager.UpdateSecretVersionStageCommand({
+            SecretId: event.SecretId,
+            VersionStage: 'AWSCURRENT',
+            MoveToVersionId: event.ClientRequestToken,
+            RemoveFromVersionId: currentVersionId,
+        }),
+    );
+};
+
+export const handler = async (event: unknown): Promise<void> => {
+    const validatedEvent = eventSchema.parse(event);
+    const env = environmentSchema.parse(process.env);
+    log('Handling rotation step', { step: validatedEvent.Step, versionId: validatedEvent.ClientRequestToken });
+
+    const description = await secretsManagerClient.send(
+        new secretsmanager.DescribeSecretCommand({
+            SecretId: validatedEvent.SecretId,
+        }),
+    );
+    if (!description.RotationEnabled) {
+        throw new Error(`Rotation is not enabled for secret ${validatedEvent.SecretId}`);
+    }
+    const stages = description.VersionIdsToStages?.[validatedEvent.ClientRequestToken];
+    if (!stages) {
+        throw new Error(`Version ${validatedEvent.ClientRequestToken} not found for secret ${validatedEvent.SecretId}`);
+    }
+    if (stages.includes('AWSCURRENT')) {
+        log('Version is already current');
+        return;
+    }
+    if (!stages.includes('AWSPENDING')) {
+        throw new Error(`Version ${validatedEvent.ClientRequestToken} is not pending for secret ${validatedEvent.SecretId}`);
+    }
+
+    if (validatedEvent.Step === 'createSecret') {
+        await createSecret(validatedEvent, env);
+    } else if (validatedEvent.Step === 'setSecret') {
+        await setSecret(validatedEvent, env);
+    } else if (validatedEvent.Step === 'testSecret') {
+        await testSecret(validatedEvent, env);
+    } else if (validatedEvent.Step === 'finishSecret') {
+        await finishSecret(validatedEvent);
+    }
+};
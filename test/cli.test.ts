@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import * as cli from '../cli/main';
+import { getProperties, main, parseArgs, run } from '../cli/main';
+import * as handler from '../handler/main';
+import { createUserAndDatabase, deleteUserAndDatabase, inspectUserAndDatabase, updateUserAndDatabase } from '../handler/main';
+
+jest.mock('../handler/main');
+
+describe('parseArgs', () => {
+    test('parses the command and options', () => {
+        expect(parseArgs(['create', '--host', 'localhost', '--database-name=app', '--json', '--plan'])).toEqual({
+            command: 'create',
+            options: { host: 'localhost', 'database-name': 'app', json: 'true', plan: 'true' },
+        });
+    });
+
+    test('treats an option followed by another option as true', () => {
+        expect(parseArgs(['update', '--plan', '--host', 'localhost']).options).toEqual({ plan: 'true', host: 'localhost' });
+    });
+
+    test('rejects a second command', () => {
+        expect(() => parseArgs(['create', 'delete'])).toThrow('Unexpected argument delete');
+    });
+});
+
+describe('getProperties', () => {
+    const connectionOptions = {
+        host: 'localhost',
+        'database-name': 'app',
+    };
+    const options = {
+        ...connectionOptions,
+        'admin-credentials': 'env:ADMIN_CREDENTIALS',
+        'user-credentials': 'secretsmanager:arn:aws:secretsmanager:eu-west-1:123456789012:secret:app',
+    };
+
+    test('sets the credentials properties, and passes other options through as properties', () => {
+        expect(getProperties({ ...options, 'on-create-if-exists': 'Adopt' })).toEqual({
+            dbClusterHostname: 'localhost',
+            dbClusterPort: '5432',
+            dbSecretArn: 'ADMIN_CREDENTIALS',
+            dbCredentialsFormat: JSON.stringify({ store: 'Environment' }),
+            userSecretArn: 'arn:aws:secretsmanager:eu-west-1:123456789012:secret:app',
+            userCredentialsFormat: JSON.stringify({ store: 'SecretsManager' }),
+            databaseName: 'app',
+            onDelete: 'Delete',
+            onCreateIfExists: 'Adopt',
+            onUpdateIfUserDoesNotExist: 'Ignore',
+            onUpdateIfDatabaseDoesNotExist: 'Ignore',
+            onUpdateSetUserPassword: 'Never',
+            onUpdateSetUserPermissions: 'Never',
+            onUpdateSetDatabaseOwnership: 'Never',
+        });
+    });
+
+    test('takes the username of a plaintext password from --username', () => {
+        const properties = getProperties({ ...options, 'user-credentials': 'ssm:/app/password', username: 'app' });
+        expect(properties.userSecretArn).toBe('/app/password');
+        expect(JSON.parse(properties.userCredentialsFormat)).toEqual({ store: 'SsmParameter', plaintextUsername: 'app' });
+        expect(properties.username).toBeUndefined();
+    });
+
+    test('passes the username only with Iam authentication, which needs no user credentials', () => {
+        const iamOptions = { ...connectionOptions, 'admin-credentials': options['admin-credentials'] };
+        const properties = getProperties({ ...iamOptions, authentication: 'Iam', username: 'app' });
+        expect(properties).toMatchObject({ authentication: 'Iam', username: 'app' });
+        expect(properties.userSecretArn).toBeUndefined();
+
+        expect(() => getProperties({ ...iamOptions, authentication: 'Iam' })).toThrow('Missing --username');
+        expect(() => getProperties({ ...options, authentication: 'Iam', username: 'app' })).toThrow('Cannot use --user-credentials with --authentication Iam');
+        expect(() => getProperties({ ...options, authentication: 'Token' })).toThrow('Invalid --authentication Token');
+    });
+
+    test('takes the admin credentials from PGUSER and PGPASSWORD, but the user credentials only from a source', () => {
+        process.env['PGUSER'] = 'admin';
+        process.env['PGPASSWORD'] = 'admin-password';
+        try {
+            const properties = getProperties({ ...connectionOptions, 'user-credentials': options['user-credentials'] });
+            expect(JSON.parse(properties.dbCredentialsFormat)).toEqual({ store: 'Environment', plaintextUsername: 'admin' });
+            expect(process.env[properties.dbSecretArn]).toBe('admin-password');
+
+            expect(() => getProperties(connectionOptions)).toThrow('Missing --user-credentials');
+        } finally {
+            delete process.env['PGUSER'];
+            delete process.env['PGPASSWORD'];
+        }
+    });
+
+    test('only writes connection details to a user secret in Secrets Manager', () => {
+        expect(getProperties({ ...options, 'write-connection-details': 'true' }).writeConnectionDetails).toBe('true');
+        expect(() => getProperties({ ...options, 'user-credentials': 'env:USER_CREDENTIALS', 'write-connection-details': 'true' })).toThrow(
+            'Can only use --write-connection-details with --user-credentials secretsmanager:ARN',
+        );
+    });
+
+    test('rejects invalid credentials sources', () => {
+        expect(() => getProperties({ ...options, 'admin-credentials': 'vault:admin' })).toThrow('Invalid --admin-credentials vault:admin');
+    });
+});
+
+describe('run', () => {
+    const connectionArgs = ['--host', 'localhost', '--database-name', 'app', '--admin-credentials', 'env:ADMIN_CREDENTIALS', '--user-credentials', 'env:USER_CREDENTIALS'];
+    const argv = ['inspect', ...connectionArgs, '--quiet'];
+    let output: string;
+
+    beforeEach(() => {
+        output = '';
+        jest.spyOn(process.stdout, 'write').mockImplementation((text) => {
+            output += String(text);
+            return true;
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        process.exitCode = undefined;
+    });
+
+    test('exports the handler functions it runs', () => {
+        expect(cli.createUserAndDatabase).toBe(handler.createUserAndDatabase);
+        expect(cli.updateUserAndDatabase).toBe(handler.updateUserAndDatabase);
+        expect(cli.deleteUserAndDatabase).toBe(handler.deleteUserAndDatabase);
+        expect(cli.inspectUserAndDatabase).toBe(handler.inspectUserAndDatabase);
+    });
+
+    test('only redirects console.log while running the handler, discarding the logs with --quiet', async () => {
+        const log = console.log;
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.mocked(inspectUserAndDatabase).mockImplementation(async () => {
+            expect(console.log).not.toBe(log);
+            console.log('Inspecting');
+            return { PhysicalResourceId: 'localhost/app/app' };
+        });
+        await run(argv);
+        expect(output).toBe('inspect: localhost/app/app\n');
+        expect(console.log).toBe(log);
+        expect(error).not.toHaveBeenCalled();
+
+        await run(argv.slice(0, -1));
+        expect(error).toHaveBeenCalledWith('Inspecting');
+        expect(console.log).toBe(log);
+
+        jest.mocked(inspectUserAndDatabase).mockRejectedValue(new Error('Connection refused'));
+        await expect(run(argv)).rejects.toThrow('Connection refused');
+        expect(console.log).toBe(log);
+    });
+
+    test('runs the command, and writes its response as text or JSON', async () => {
+        jest.mocked(createUserAndDatabase).mockResolvedValue({ PhysicalResourceId: 'localhost/app/app', Data: { Username: 'app', Plan: JSON.stringify(['CREATE DATABASE "app";']) } });
+        await run(['create', ...connectionArgs, '--quiet']);
+        expect(output).toBe('create (plan): localhost/app/app\nUsername: app\nPlan:\n  CREATE DATABASE "app";\n');
+
+        output = '';
+        jest.mocked(updateUserAndDatabase).mockResolvedValue({ PhysicalResourceId: 'localhost/app/app', Data: { Username: 'app' } });
+        await run(['update', ...connectionArgs, '--id', 'localhost/app/app', '--old-properties', '{"databaseName":"app"}', '--json', '--quiet']);
+        expect(JSON.parse(output)).toEqual({ physicalResourceId: 'localhost/app/app', data: { Username: 'app' } });
+        expect(updateUserAndDatabase).toHaveBeenCalledWith(expect.objectContaining({ databaseName: 'app' }), 'localhost/app/app', { databaseName: 'app' });
+
+        output = '';
+        jest.mocked(deleteUserAndDatabase).mockResolvedValue({ PhysicalResourceId: 'localhost/app/app' });
+        await run(['delete', ...connectionArgs, '--quiet']);
+        expect(output).toBe('delete: localhost/app/app\n');
+        expect(deleteUserAndDatabase).toHaveBeenCalledWith(expect.objectContaining({ databaseName: 'app' }), undefined);
+    });
+
+    test('writes the usage, failing only without a command', async () => {
+        await run(['--help']);
+        expect(output).toContain('Usage: pg-user-and-database');
+        expect(process.exitCode).toBeUndefined();
+
+        await run([]);
+        expect(process.exitCode).toBe(1);
+    });
+
+    test('reports errors from main, with invalid properties one per line', async () => {
+        const stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+        await main(['drop']);
+        expect(stderr).toHaveBeenCalledWith('Error: Unknown command drop, must be one of create, update, delete, inspect\n');
+        expect(process.exitCode).toBe(1);
+
+        jest.mocked(inspectUserAndDatabase).mockRejectedValue(
+            new z.ZodError([
+                { code: 'custom', path: ['onDelete'], message: 'Invalid onDelete' },
+                { code: 'custom', path: [], message: 'Invalid properties' },
+            ]),
+        );
+        await main(argv);
+        expect(stderr).toHaveBeenCalledWith('Error: onDelete: Invalid onDelete\nInvalid properties\n');
+
+        jest.mocked(inspectUserAndDatabase).mockRejectedValue('Connection refused');
+        await main(argv);
+        expect(stderr).toHaveBeenCalledWith('Error: Connection refused\n');
+    });
+});
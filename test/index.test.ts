@@ -0,0 +1,367 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as rds from 'aws-cdk-lib/aws-rds';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { DatabaseTarget, MysqlUserAndDatabase, PostgresDatabaseRole, PostgresInitScript, PostgresProvisioner, PostgresSslCa, PostgresUserAndDatabase, PostgresUserAndDatabaseProps } from '../index';
+
+interface TestStack {
+    stack: cdk.Stack;
+    vpc: ec2.Vpc;
+    dbTarget: DatabaseTarget;
+    dbSecret: secretsmanager.Secret;
+}
+
+const createTestStack = (): TestStack => {
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    const vpc = new ec2.Vpc(stack, 'Vpc');
+    const dbTarget = new DatabaseTarget({
+        hostname: 'cluster.example.com',
+        port: 5432,
+        connectable: new ec2.SecurityGroup(stack, 'DatabaseSecurityGroup', { vpc }),
+    });
+    const dbSecret = new secretsmanager.Secret(stack, 'DbSecret');
+    return { stack, vpc, dbTarget, dbSecret };
+};
+
+describe('PostgresUserAndDatabase', () => {
+    test('creates the custom resource, a generated user secret, and access to the database', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app' });
+
+        const template = Template.fromStack(stack);
+        template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+            dbClusterHostname: 'cluster.example.com',
+            dbClusterPort: 5432,
+            dbSecretArn: { Ref: Match.stringLikeRegexp('^DbSecret') },
+            userSecretArn: { Ref: Match.stringLikeRegexp('^UserAndDatabaseUserSecret') },
+            databaseName: 'app',
+            onDelete: 'Delete',
+            onCreateIfExists: 'Fail',
+            onUpdateIfUserDoesNotExist: 'Ignore',
+            onUpdateIfDatabaseDoesNotExist: 'Ignore',
+            onUpdateSetUserPassword: 'Never',
+            onUpdateSetUserPermissions: 'Never',
+            onUpdateSetDatabaseOwnership: 'Never',
+        });
+        template.hasResourceProperties('AWS::SecretsManager::Secret', {
+            GenerateSecretString: {
+                SecretStringTemplate: JSON.stringify({ username: 'app', dbname: 'app', host: 'cluster.example.com', port: 5432 }),
+                GenerateStringKey: 'password',
+            },
+        });
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            FromPort: 5432,
+            ToPort: 5432,
+            GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseSecurityGroup'), 'GroupId'] },
+        });
+        template.resourceCountIs('AWS::Lambda::Function', 2);
+    });
+
+    test('targets an imported cluster without a resource ID, unless granting connect', () => {
+        const { stack, vpc, dbSecret } = createTestStack();
+        const cluster = rds.DatabaseCluster.fromDatabaseClusterAttributes(stack, 'Cluster', {
+            clusterIdentifier: 'cluster',
+            clusterEndpointAddress: 'cluster.example.com',
+            port: 5432,
+            securityGroups: [],
+        });
+        const userAndDatabase = new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbCluster: cluster, dbSecret, vpc, databaseName: 'app', username: 'app', authentication: 'Iam' });
+        Template.fromStack(stack);
+        expect(() => userAndDatabase.grantConnect(new iam.AnyPrincipal())).toThrow('without a clusterResourceIdentifier');
+    });
+
+    test('targets an RDS instance or proxy', () => {
+        const { stack, vpc } = createTestStack();
+        const instance = rds.DatabaseInstance.fromDatabaseInstanceAttributes(stack, 'Instance', {
+            instanceIdentifier: 'instance',
+            instanceEndpointAddress: 'instance.example.com',
+            port: 5433,
+            securityGroups: [],
+            instanceResourceId: 'db-INSTANCE',
+        });
+        const instanceTarget = DatabaseTarget.fromInstance(instance);
+        expect(instanceTarget).toMatchObject({ hostname: 'instance.example.com', port: 5433, resourceId: 'db-INSTANCE' });
+
+        const proxy = new rds.DatabaseProxy(stack, 'Proxy', {
+            proxyTarget: rds.ProxyTarget.fromInstance(new rds.DatabaseInstance(stack, 'ProxiedInstance', { engine: rds.DatabaseInstanceEngine.POSTGRES, vpc })),
+            secrets: [new secretsmanager.Secret(stack, 'ProxySecret')],
+            vpc,
+        });
+        const proxyTarget = DatabaseTarget.fromProxy(proxy);
+        expect(proxyTarget.port).toBe(5432);
+        expect(stack.resolve(proxyTarget.resourceId)).toEqual({
+            'Fn::Select': [6, { 'Fn::Split': [':', { 'Fn::GetAtt': [stack.getLogicalId(proxy.node.defaultChild as cdk.CfnElement), 'DBProxyArn'] }] }],
+        });
+    });
+
+    test('runs the rotation and password sync functions in the vpc of the provisioner', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const userAndDatabase = new PostgresUserAndDatabase(stack, 'UserAndDatabase', {
+            dbTarget,
+            dbSecret,
+            databaseName: 'app',
+            username: 'app',
+            provisioner: new PostgresProvisioner(stack, 'Provisioner', { vpc }),
+            rotation: {},
+            syncPasswordOnSecretChange: true,
+        });
+
+        expect(userAndDatabase.rotationHandler?.isBoundToVpc).toBe(true);
+        expect(userAndDatabase.passwordSyncHandler?.isBoundToVpc).toBe(true);
+    });
+
+    test('requires a vpc for rotation, even with executionMode DataApi', () => {
+        const { stack, dbSecret } = createTestStack();
+        const dbTarget = new DatabaseTarget({
+            hostname: 'cluster.example.com',
+            port: 5432,
+            connectable: new ec2.SecurityGroup(stack, 'DataApiSecurityGroup', { vpc: new ec2.Vpc(stack, 'OtherVpc') }),
+            clusterArn: 'arn:aws:rds:eu-west-1:123456789012:cluster:cluster',
+        });
+        expect(
+            () =>
+                new PostgresUserAndDatabase(stack, 'UserAndDatabase', {
+                    dbTarget,
+                    dbSecret,
+                    databaseName: 'app',
+                    username: 'app',
+                    executionMode: 'DataApi',
+                    rotation: {},
+                }),
+        ).toThrow('Must provide vpc, or a provisioner with a vpc, with rotation or syncPasswordOnSecretChange');
+    });
+
+    test('checks the secret version again when the properties change', () => {
+        const getPropertiesHash = (props: Partial<PostgresUserAndDatabaseProps>): unknown => {
+            const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+            new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app', onUpdateCheckSecretVersion: true, ...props });
+            const resources = Template.fromStack(stack).findResources('AWS::CloudFormation::CustomResource', { Properties: { secretArn: {} } });
+            return Object.values(resources)[0].Properties.propertiesHash;
+        };
+
+        expect(getPropertiesHash({})).toEqual(getPropertiesHash({}));
+        expect(getPropertiesHash({ onDelete: 'Retain' })).not.toEqual(getPropertiesHash({}));
+    });
+});
+
+describe('PostgresUserAndDatabase options', () => {
+    let directory: string;
+
+    beforeAll(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-user-and-database-'));
+        fs.writeFileSync(path.join(directory, 'ca.pem'), '-----BEGIN CERTIFICATE-----\n');
+        fs.writeFileSync(path.join(directory, 'seed.sql'), 'INSERT INTO colours VALUES (1);\n');
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true });
+    });
+
+    test('passes ssl, extensions, init scripts and schemas to the custom resource as JSON', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const caSecret = new secretsmanager.Secret(stack, 'CaSecret');
+        new PostgresUserAndDatabase(stack, 'UserAndDatabase', {
+            dbTarget,
+            dbSecret,
+            vpc,
+            databaseName: 'app',
+            username: 'app',
+            ssl: { ca: PostgresSslCa.fromSecret(caSecret) },
+            extensions: ['pgcrypto', { name: 'postgis', version: '3.4.0' }],
+            initScripts: [PostgresInitScript.fromString('schema', 'CREATE TABLE colours (id int);'), PostgresInitScript.fromFile('seed', path.join(directory, 'seed.sql'), { runAs: 'Admin' })],
+            schemas: [{ name: 'reporting', defaultPrivileges: [{ grantee: 'reader', on: 'Tables', privileges: ['SELECT'] }] }],
+        });
+
+        const template = Template.fromStack(stack);
+        const properties = Object.values(template.findResources('AWS::CloudFormation::CustomResource', { Properties: { databaseName: 'app' } }))[0].Properties;
+        expect(properties.ssl).toEqual({ 'Fn::Join': ['', ['{"mode":"verify-full","caSecretArn":"', { Ref: stack.getLogicalId(caSecret.node.defaultChild as cdk.CfnElement) }, '"}']] });
+        expect(JSON.parse(properties.extensions)).toEqual([{ name: 'pgcrypto' }, { name: 'postgis', version: '3.4.0' }]);
+        expect(properties.schemas).toEqual(JSON.stringify([{ name: 'reporting', defaultPrivileges: [{ grantee: 'reader', on: 'Tables', privileges: ['SELECT'] }] }]));
+        expect(JSON.stringify(properties.initScripts)).toContain('s3Bucket');
+        expect(JSON.stringify(properties.initScripts)).toContain('CREATE TABLE colours (id int);');
+    });
+
+    test('passes a CA certificate from a file inline', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        new PostgresUserAndDatabase(stack, 'UserAndDatabase', {
+            dbTarget,
+            dbSecret,
+            vpc,
+            databaseName: 'app',
+            username: 'app',
+            ssl: { mode: 'require', ca: PostgresSslCa.fromFile(path.join(directory, 'ca.pem')) },
+        });
+        Template.fromStack(stack).hasResourceProperties('AWS::CloudFormation::CustomResource', {
+            ssl: JSON.stringify({ mode: 'require', ca: '-----BEGIN CERTIFICATE-----\n' }),
+        });
+    });
+
+    test('rejects repeated init script and schema names, and default privileges without privileges', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const props = { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app' };
+        const script = PostgresInitScript.fromString('schema', 'SELECT 1;');
+        expect(() => new PostgresUserAndDatabase(stack, 'InitScripts', { ...props, initScripts: [script, script] })).toThrow('Init script names must be unique, but schema is repeated');
+        expect(() => new PostgresUserAndDatabase(stack, 'Schemas', { ...props, schemas: [{ name: 'reporting' }, { name: 'reporting' }] })).toThrow(
+            'Schema names must be unique, but reporting is repeated',
+        );
+        expect(
+            () => new PostgresUserAndDatabase(stack, 'DefaultPrivileges', { ...props, schemas: [{ name: 'reporting', defaultPrivileges: [{ grantee: 'reader', on: 'Tables', privileges: [] }] }] }),
+        ).toThrow('Default privileges in schema reporting must have at least one privilege');
+    });
+
+    test('returns the attributes of the custom resource', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const userAndDatabase = new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app', plan: true });
+        const logicalId = stack.getLogicalId(userAndDatabase.customResource.node.defaultChild as cdk.CfnElement);
+        const attributes = {
+            DatabaseName: userAndDatabase.attrDatabaseName,
+            Username: userAndDatabase.attrUsername,
+            Host: userAndDatabase.attrHost,
+            Port: userAndDatabase.attrPort,
+            DatabaseOid: userAndDatabase.attrDatabaseOid,
+            ServerVersion: userAndDatabase.attrServerVersion,
+            Drift: userAndDatabase.attrDrift,
+            Plan: userAndDatabase.attrPlan,
+        };
+        for (const [name, value] of Object.entries(attributes)) {
+            expect(stack.resolve(value)).toEqual({ 'Fn::GetAtt': [logicalId, name] });
+        }
+        Template.fromStack(stack).hasOutput('*', { Value: { 'Fn::GetAtt': [logicalId, 'Plan'] } });
+
+        const unplanned = new PostgresUserAndDatabase(stack, 'Unplanned', { dbTarget, dbSecret, vpc, databaseName: 'other', username: 'other' });
+        expect(() => unplanned.attrPlan).toThrow('There is no plan unless plan is set');
+    });
+});
+
+describe('PostgresDatabaseRole', () => {
+    test("creates the role with the database's handler, after the database", () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const userAndDatabase = new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app' });
+        new PostgresDatabaseRole(stack, 'ReadOnlyRole', { userAndDatabase, username: 'app_read', access: 'ReadOnly' });
+
+        const template = Template.fromStack(stack);
+        template.resourceCountIs('AWS::Lambda::Function', 2);
+        template.hasResource('AWS::CloudFormation::CustomResource', {
+            Properties: {
+                resourceType: 'Role',
+                ownerSecretArn: { Ref: Match.stringLikeRegexp('^UserAndDatabaseUserSecret') },
+                userSecretArn: { Ref: Match.stringLikeRegexp('^ReadOnlyRoleUserSecret') },
+                databaseName: 'app',
+                access: 'ReadOnly',
+                schemas: JSON.stringify(['public']),
+                onCreateIfExists: 'Fail',
+                onDelete: 'Delete',
+                onUpdateSetUserPassword: 'Never',
+            },
+            DependsOn: Match.arrayWith([Match.stringLikeRegexp('^UserAndDatabase[0-9A-F]+$')]),
+        });
+    });
+
+    test('rejects a reserved username', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const userAndDatabase = new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app' });
+        expect(() => new PostgresDatabaseRole(stack, 'Role', { userAndDatabase, username: 'pg_read', access: 'ReadOnly' })).toThrow('is reserved');
+    });
+});
+
+describe('PostgresProvisioner', () => {
+    test('shares one handler between the constructs that use it', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const provisioner = PostgresProvisioner.of(stack, vpc);
+        expect(PostgresProvisioner.of(stack, vpc)).toBe(provisioner);
+        const first = new PostgresUserAndDatabase(stack, 'First', { dbTarget, dbSecret, provisioner, databaseName: 'first', username: 'first' });
+        const second = new PostgresUserAndDatabase(stack, 'Second', { dbTarget, dbSecret, provisioner, databaseName: 'second', username: 'second' });
+
+        expect(first.handler).toBe(provisioner.handler);
+        expect(second.handler).toBe(provisioner.handler);
+        Template.fromStack(stack).resourceCountIs('AWS::Lambda::Function', 2);
+    });
+
+    test('creates the secret version function once, when first needed', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const provisioner = PostgresProvisioner.of(stack, vpc);
+        expect(provisioner.getSecretLatestVersionHandlerAndProvider()).toBe(provisioner.getSecretLatestVersionHandlerAndProvider());
+        new PostgresUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, provisioner, databaseName: 'app', username: 'app', onUpdateCheckSecretVersion: true });
+        Template.fromStack(stack).resourceCountIs('AWS::Lambda::Function', 4);
+    });
+
+    test('cannot be combined with functionOptions', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        expect(
+            () =>
+                new PostgresUserAndDatabase(stack, 'UserAndDatabase', {
+                    dbTarget,
+                    dbSecret,
+                    provisioner: PostgresProvisioner.of(stack, vpc),
+                    functionOptions: { memorySize: 256 },
+                    databaseName: 'app',
+                    username: 'app',
+                }),
+        ).toThrow('Cannot use connectionTimeout or functionOptions with provisioner');
+    });
+});
+
+describe('MysqlUserAndDatabase', () => {
+    test('creates the custom resource for the Mysql engine, and a generated user secret', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        new MysqlUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app' });
+
+        const template = Template.fromStack(stack);
+        template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+            engine: 'Mysql',
+            dbClusterHostname: 'cluster.example.com',
+            dbSecretArn: { Ref: Match.stringLikeRegexp('^DbSecret') },
+            userSecretArn: { Ref: Match.stringLikeRegexp('^UserAndDatabaseUserSecret') },
+            databaseName: 'app',
+            onDelete: 'Delete',
+            onCreateIfExists: 'Fail',
+            onUpdateSetUserPermissions: 'Never',
+        });
+        template.hasResourceProperties('AWS::SecretsManager::Secret', {
+            GenerateSecretString: {
+                SecretStringTemplate: JSON.stringify({ username: 'app', dbname: 'app', host: 'cluster.example.com', port: 5432 }),
+            },
+        });
+    });
+
+    test('returns the attributes of the custom resource', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const userAndDatabase = new MysqlUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'app' });
+        const logicalId = stack.getLogicalId(userAndDatabase.customResource.node.defaultChild as cdk.CfnElement);
+        const attributes = {
+            DatabaseName: userAndDatabase.attrDatabaseName,
+            Username: userAndDatabase.attrUsername,
+            Host: userAndDatabase.attrHost,
+            Port: userAndDatabase.attrPort,
+            ServerVersion: userAndDatabase.attrServerVersion,
+        };
+        for (const [name, value] of Object.entries(attributes)) {
+            expect(stack.resolve(value)).toEqual({ 'Fn::GetAtt': [logicalId, name] });
+        }
+    });
+
+    test('rejects names MySQL does not allow', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        expect(() => new MysqlUserAndDatabase(stack, 'LongUsername', { dbTarget, dbSecret, vpc, databaseName: 'app', username: 'a'.repeat(33) })).toThrow('must be at most 32 characters');
+    });
+
+    test('requires exactly one of dbSecret or dbParameter', () => {
+        const { stack, vpc, dbTarget } = createTestStack();
+        expect(() => new MysqlUserAndDatabase(stack, 'UserAndDatabase', { dbTarget, vpc, databaseName: 'app', username: 'app' })).toThrow('Must provide either dbSecret or dbParameter');
+    });
+
+    test('shares a provisioner with PostgresUserAndDatabase', () => {
+        const { stack, vpc, dbTarget, dbSecret } = createTestStack();
+        const provisioner = PostgresProvisioner.of(stack, vpc);
+        new PostgresUserAndDatabase(stack, 'Postgres', { dbTarget, dbSecret, provisioner, databaseName: 'app', username: 'app' });
+        const mysql = new MysqlUserAndDatabase(stack, 'Mysql', { dbTarget, dbSecret, provisioner, databaseName: 'app', username: 'app' });
+
+        expect(mysql.handler).toBe(provisioner.handler);
+        Template.fromStack(stack).resourceCountIs('AWS::Lambda::Function', 2);
+    });
+});
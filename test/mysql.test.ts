@@ -0,0 +1,263 @@
+import { handler } from '../handler/main';
+import { isMysqlError, quoteMysqlAccount, quoteMysqlIdentifier, quoteMysqlLiteral } from '../handler/mysql';
+
+interface MockMysqlConfig {
+    user: string;
+    password: string;
+}
+
+// Stands in for mysql2's createConnection, keeping its escaping, so that
+// the handler's own statements are what is tested, against mockServer
+jest.mock('mysql2/promise', () => ({
+    ...jest.requireActual('mysql2/promise'),
+    createConnection: async (config: MockMysqlConfig) => {
+        mockServer.connect(config);
+        return {
+            query: async (text: string, values: unknown[] = []) => [mockServer.query(text, values)],
+            end: async () => undefined,
+        };
+    },
+}));
+
+const mysqlError = (message: string, code: string, errno: number): Error => {
+    return Object.assign(new Error(message), { code, errno });
+};
+
+// A fake MySQL server, with just enough of the catalog for the handler's
+// statements, which records each statement that changes anything
+class MockServer {
+    // Usernames to their passwords
+    users = new Map<string, string>();
+    databases = new Set<string>();
+    // Tables, as database.table, to whether they have rows
+    tables = new Map<string, boolean>();
+    statements: string[] = [];
+
+    reset(): void {
+        this.users = new Map([['admin', 'admin-password']]);
+        this.databases = new Set(['mysql']);
+        this.tables = new Map();
+        this.statements = [];
+    }
+
+    connect(config: MockMysqlConfig): void {
+        if (this.users.get(config.user) !== config.password) {
+            throw mysqlError(`Access denied for user '${config.user}'@'%'`, 'ER_ACCESS_DENIED_ERROR', 1045);
+        }
+    }
+
+    // Rows for a SELECT, and a result header for anything else
+    query(text: string, values: unknown[]): Record<string, unknown>[] | { affectedRows: number } {
+        const [name] = values as string[];
+        if (text.startsWith('SELECT VERSION()')) {
+            return [{ version: '8.0.36' }];
+        } else if (text.startsWith('SELECT 1 FROM mysql.user')) {
+            return this.users.has(name) ? [{}] : [];
+        } else if (text.startsWith('SELECT 1 FROM information_schema.schemata')) {
+            return this.databases.has(name) ? [{}] : [];
+        } else if (text.startsWith('SELECT table_name AS name FROM information_schema.tables')) {
+            return [...this.tables.keys()].filter((table) => table.startsWith(`${name}.`)).map((table) => ({ name: table.slice(name.length + 1) }));
+        } else if (text.startsWith('SELECT 1 FROM ')) {
+            const [, databaseName, tableName] = /^SELECT 1 FROM `((?:[^`]|``)*)`\.`((?:[^`]|``)*)`/.exec(text) as string[];
+            return this.tables.get(`${databaseName}.${tableName}`) ? [{}] : [];
+        }
+
+        this.statements.push(text);
+        const user = /'((?:[^'\\]|\\.)*)'@'%'/.exec(text)?.[1];
+        const password = /IDENTIFIED BY '((?:[^'\\]|\\.)*)'/.exec(text)?.[1];
+        const database = /`((?:[^`]|``)*)`/.exec(text)?.[1];
+        if (text.startsWith('CREATE USER ')) {
+            if (this.users.has(user as string)) {
+                throw mysqlError(`Operation CREATE USER failed for '${user}'@'%'`, 'ER_CANNOT_USER', 1396);
+            }
+            this.users.set(user as string, password as string);
+        } else if (text.startsWith('ALTER USER ')) {
+            this.users.set(user as string, password as string);
+        } else if (text.startsWith('DROP USER ')) {
+            this.users.delete(user as string);
+        } else if (text.startsWith('CREATE DATABASE ')) {
+            if (this.databases.has(database as string)) {
+                throw mysqlError(`Can't create database '${database}'; database exists`, 'ER_DB_CREATE_EXISTS', 1007);
+            }
+            this.databases.add(database as string);
+        } else if (text.startsWith('DROP DATABASE ')) {
+            this.databases.delete(database as string);
+        }
+        return { affectedRows: 0 };
+    }
+}
+
+const mockServer = new MockServer();
+
+const properties = {
+    engine: 'Mysql',
+    dbClusterHostname: 'cluster.example.com',
+    dbClusterPort: '3306',
+    dbSecretArn: 'TEST_ADMIN_CREDENTIALS',
+    dbCredentialsFormat: JSON.stringify({ store: 'Environment' }),
+    userSecretArn: 'TEST_USER_CREDENTIALS',
+    userCredentialsFormat: JSON.stringify({ store: 'Environment' }),
+    ssl: JSON.stringify({ mode: 'disable' }),
+    databaseName: 'app',
+    onDelete: 'Delete',
+    onCreateIfExists: 'Fail',
+    onUpdateIfUserDoesNotExist: 'Ignore',
+    onUpdateIfDatabaseDoesNotExist: 'Ignore',
+    onUpdateSetUserPassword: 'Never',
+    onUpdateSetUserPermissions: 'Never',
+};
+
+const grantStatement = "GRANT ALL PRIVILEGES ON `app`.* TO 'app'@'%';";
+
+beforeEach(() => {
+    mockServer.reset();
+    process.env['TEST_ADMIN_CREDENTIALS'] = JSON.stringify({ username: 'admin', password: 'admin-password' });
+    process.env['TEST_USER_CREDENTIALS'] = JSON.stringify({ username: 'app', password: 'user-password' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('quoteMysqlIdentifier', () => {
+    test('backtick quotes, doubling any backticks and quoting dots', () => {
+        expect(quoteMysqlIdentifier('app')).toBe('`app`');
+        expect(quoteMysqlIdentifier('a`b')).toBe('`a``b`');
+        expect(quoteMysqlIdentifier('app.users')).toBe('`app.users`');
+    });
+});
+
+describe('quoteMysqlAccount', () => {
+    test('quotes the username, as mysql2 escapes literals, for any host', () => {
+        expect(quoteMysqlLiteral("it's")).toBe("'it\\'s'");
+        expect(quoteMysqlAccount('app')).toBe("'app'@'%'");
+        expect(quoteMysqlAccount("it's")).toBe("'it\\'s'@'%'");
+    });
+});
+
+describe('isMysqlError', () => {
+    test('only matches errors with a code and errno', () => {
+        expect(isMysqlError(mysqlError('Access denied', 'ER_ACCESS_DENIED_ERROR', 1045))).toBe(true);
+        expect(isMysqlError(Object.assign(new Error('role "app" already exists'), { code: '42710' }))).toBe(false);
+        expect(isMysqlError({ code: 'ER_ACCESS_DENIED_ERROR', errno: 1045 })).toBe(false);
+    });
+});
+
+describe('create and delete', () => {
+    test('creates the user and database, granting the user all privileges on it, and drops them on delete', async () => {
+        const response = await handler({ RequestType: 'Create', ResourceProperties: properties });
+        expect(response).toEqual({
+            PhysicalResourceId: 'cluster.example.com/app/app',
+            Data: { DatabaseName: 'app', Username: 'app', Host: 'cluster.example.com', Port: '3306', ServerVersion: '8.0.36' },
+        });
+        expect(mockServer.users.get('app')).toBe('user-password');
+        expect(mockServer.databases.has('app')).toBe(true);
+        expect(mockServer.statements).toContain(grantStatement);
+
+        await handler({ RequestType: 'Delete', PhysicalResourceId: response.PhysicalResourceId, ResourceProperties: properties });
+        expect(mockServer.databases.has('app')).toBe(false);
+        expect(mockServer.users.has('app')).toBe(false);
+    });
+
+    test('records what is adopted in the physical resource ID, and never drops it', async () => {
+        mockServer.users.set('app', 'old-password');
+        mockServer.databases.add('app');
+        const adoptProperties = { ...properties, onCreateIfExists: 'Adopt' };
+        const response = await handler({ RequestType: 'Create', ResourceProperties: adoptProperties });
+        expect(response.PhysicalResourceId).toBe('adopted=user+database;cluster.example.com/app/app');
+        expect(mockServer.users.get('app')).toBe('user-password');
+
+        await handler({ RequestType: 'Delete', PhysicalResourceId: response.PhysicalResourceId, ResourceProperties: adoptProperties });
+        expect(mockServer.databases.has('app')).toBe(true);
+        expect(mockServer.users.has('app')).toBe(true);
+    });
+
+    test('drops and creates again what exists with onCreateIfExists DeleteAndRecreate', async () => {
+        mockServer.users.set('app', 'old-password');
+        mockServer.databases.add('app');
+        const response = await handler({ RequestType: 'Create', ResourceProperties: { ...properties, onCreateIfExists: 'DeleteAndRecreate' } });
+        expect(response.PhysicalResourceId).toBe('cluster.example.com/app/app');
+        expect(mockServer.statements).toEqual([
+            "CREATE USER 'app'@'%' IDENTIFIED BY 'user-password';",
+            "DROP USER 'app'@'%';",
+            "CREATE USER 'app'@'%' IDENTIFIED BY 'user-password';",
+            'CREATE DATABASE `app`;',
+            'DROP DATABASE `app`;',
+            'CREATE DATABASE `app`;',
+            grantStatement,
+        ]);
+    });
+
+    test('drops the created user if the database exists with onCreateIfExists Fail', async () => {
+        mockServer.databases.add('app');
+        await expect(handler({ RequestType: 'Create', ResourceProperties: properties })).rejects.toThrow("Can't create database 'app'; database exists");
+        expect(mockServer.users.has('app')).toBe(false);
+        expect(mockServer.databases.has('app')).toBe(true);
+    });
+
+    test('rejects a user with the same name as the admin user', async () => {
+        process.env['TEST_USER_CREDENTIALS'] = JSON.stringify({ username: 'admin', password: 'user-password' });
+        await expect(handler({ RequestType: 'Create', ResourceProperties: properties })).rejects.toThrow('Cannot create user with same name as the admin user');
+        expect(mockServer.statements).toEqual([]);
+    });
+
+    test('only drops a database whose tables have no rows with onDelete DeleteIfEmpty', async () => {
+        const deleteIfEmptyProperties = { ...properties, onDelete: 'DeleteIfEmpty' };
+        const response = await handler({ RequestType: 'Create', ResourceProperties: deleteIfEmptyProperties });
+        mockServer.tables = new Map([
+            ['app.empty', false],
+            ['app.items', true],
+        ]);
+        await expect(handler({ RequestType: 'Delete', PhysicalResourceId: response.PhysicalResourceId, ResourceProperties: deleteIfEmptyProperties })).rejects.toThrow(
+            'Not dropping database app, as these tables have rows: `app`.`items`',
+        );
+        expect(mockServer.databases.has('app')).toBe(true);
+
+        mockServer.tables.set('app.items', false);
+        await handler({ RequestType: 'Delete', PhysicalResourceId: response.PhysicalResourceId, ResourceProperties: deleteIfEmptyProperties });
+        expect(mockServer.databases.has('app')).toBe(false);
+    });
+
+    test('retains the user and database with onDelete Retain', async () => {
+        const retainProperties = { ...properties, onDelete: 'Retain' };
+        const response = await handler({ RequestType: 'Create', ResourceProperties: retainProperties });
+        const statementCount = mockServer.statements.length;
+        await handler({ RequestType: 'Delete', PhysicalResourceId: response.PhysicalResourceId, ResourceProperties: retainProperties });
+        expect(mockServer.statements.slice(statementCount)).toEqual([]);
+    });
+});
+
+describe('update', () => {
+    test('creates what does not exist, and sets the password and permissions, only if asked to', async () => {
+        const created = await handler({ RequestType: 'Create', ResourceProperties: properties });
+        mockServer.users.delete('app');
+        mockServer.databases.delete('app');
+
+        const statementCount = mockServer.statements.length;
+        await handler({ RequestType: 'Update', PhysicalResourceId: created.PhysicalResourceId, ResourceProperties: properties, OldResourceProperties: properties });
+        expect(mockServer.statements.slice(statementCount)).toEqual([]);
+
+        process.env['TEST_USER_CREDENTIALS'] = JSON.stringify({ username: 'app', password: 'new-password' });
+        const newProperties = {
+            ...properties,
+            onUpdateIfUserDoesNotExist: 'Create',
+            onUpdateIfDatabaseDoesNotExist: 'Create',
+            onUpdateSetUserPassword: 'Always',
+            onUpdateSetUserPermissions: 'Always',
+        };
+        const updated = await handler({ RequestType: 'Update', PhysicalResourceId: created.PhysicalResourceId, ResourceProperties: newProperties, OldResourceProperties: properties });
+        expect(updated.PhysicalResourceId).toBe(created.PhysicalResourceId);
+        expect(updated.Data?.ServerVersion).toBe('8.0.36');
+        expect(mockServer.users.get('app')).toBe('new-password');
+        expect(mockServer.databases.has('app')).toBe(true);
+        expect(mockServer.statements.slice(statementCount).filter((statement) => statement === grantStatement)).toHaveLength(2);
+    });
+
+    test('cannot change the database name, as MySQL has no rename', async () => {
+        const created = await handler({ RequestType: 'Create', ResourceProperties: properties });
+        await expect(
+            handler({ RequestType: 'Update', PhysicalResourceId: created.PhysicalResourceId, ResourceProperties: { ...properties, databaseName: 'app2' }, OldResourceProperties: properties }),
+        ).rejects.toThrow('Cannot change database name or username');
+    });
+});
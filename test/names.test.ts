@@ -0,0 +1,104 @@
+import { ALTERNATE_USERNAME_SUFFIX, validateDatabaseName, validateMysqlDatabaseName, validateMysqlUsername, validateSchemaName, validateSettingName, validateUsername } from '../names';
+
+describe('validateDatabaseName', () => {
+    test('accepts names that need quoting', () => {
+        expect(() => validateDatabaseName('my-database')).not.toThrow();
+        expect(() => validateDatabaseName('My "quoted" database')).not.toThrow();
+    });
+
+    test('rejects empty names and NUL characters', () => {
+        expect(() => validateDatabaseName('')).toThrow('must not be empty');
+        expect(() => validateDatabaseName('a\0b')).toThrow('must not contain NUL characters');
+    });
+
+    test('rejects names over 63 bytes', () => {
+        expect(() => validateDatabaseName('a'.repeat(63))).not.toThrow();
+        expect(() => validateDatabaseName('a'.repeat(64))).toThrow('must be at most 63 bytes');
+        // Two bytes each in UTF-8
+        expect(() => validateDatabaseName('é'.repeat(32))).toThrow('must be at most 63 bytes');
+    });
+
+    test('rejects reserved names in any case', () => {
+        expect(() => validateDatabaseName('postgres')).toThrow('is reserved');
+        expect(() => validateDatabaseName('Template1')).toThrow('is reserved');
+        expect(() => validateDatabaseName('rdsadmin')).toThrow('is reserved');
+    });
+});
+
+describe('validateUsername', () => {
+    test('accepts ordinary names, including the alternate user', () => {
+        expect(() => validateUsername('app')).not.toThrow();
+        expect(() => validateUsername(`app${ALTERNATE_USERNAME_SUFFIX}`)).not.toThrow();
+    });
+
+    test('rejects reserved names and prefixes', () => {
+        expect(() => validateUsername('postgres')).toThrow('is reserved');
+        expect(() => validateUsername('PUBLIC')).toThrow('is reserved');
+        expect(() => validateUsername('current_user')).toThrow('is reserved');
+        expect(() => validateUsername('pg_monitor')).toThrow('is reserved');
+        expect(() => validateUsername('rds_iam')).toThrow('is reserved');
+    });
+
+    test('rejects names over 63 bytes', () => {
+        expect(() => validateUsername('u'.repeat(64))).toThrow('must be at most 63 bytes');
+    });
+});
+
+describe('validateSchemaName', () => {
+    test('accepts ordinary names', () => {
+        expect(() => validateSchemaName('app')).not.toThrow();
+    });
+
+    test('rejects system schemas', () => {
+        expect(() => validateSchemaName('pg_catalog')).toThrow('is reserved');
+        expect(() => validateSchemaName('information_schema')).toThrow('is reserved');
+        expect(() => validateSchemaName('')).toThrow('must not be empty');
+    });
+});
+
+describe('validateSettingName', () => {
+    test('accepts plain and custom settings', () => {
+        expect(() => validateSettingName('search_path')).not.toThrow();
+        expect(() => validateSettingName('auto_explain.log_min_duration')).not.toThrow();
+    });
+
+    test('rejects anything that would need quoting', () => {
+        expect(() => validateSettingName('search path')).toThrow('Invalid setting name');
+        expect(() => validateSettingName('a.b.c')).toThrow('Invalid setting name');
+        expect(() => validateSettingName('x; DROP DATABASE app')).toThrow('Invalid setting name');
+    });
+});
+
+describe('validateMysqlDatabaseName', () => {
+    test('accepts up to 64 characters', () => {
+        expect(() => validateMysqlDatabaseName('app')).not.toThrow();
+        // MySQL's limit is in characters rather than bytes
+        expect(() => validateMysqlDatabaseName('é'.repeat(64))).not.toThrow();
+        expect(() => validateMysqlDatabaseName('a'.repeat(65))).toThrow('must be at most 64 characters');
+    });
+
+    test('rejects path separators, dots and a trailing space', () => {
+        expect(() => validateMysqlDatabaseName('a/b')).toThrow('must not contain');
+        expect(() => validateMysqlDatabaseName('a\\b')).toThrow('must not contain');
+        expect(() => validateMysqlDatabaseName('a.b')).toThrow('must not contain');
+        expect(() => validateMysqlDatabaseName('app ')).toThrow('end with a space');
+    });
+
+    test('rejects system databases, empty names and NUL characters', () => {
+        expect(() => validateMysqlDatabaseName('MySQL')).toThrow('is reserved');
+        expect(() => validateMysqlDatabaseName('')).toThrow('must not be empty');
+        expect(() => validateMysqlDatabaseName('a\0b')).toThrow('must not contain NUL characters');
+    });
+});
+
+describe('validateMysqlUsername', () => {
+    test('accepts up to 32 characters', () => {
+        expect(() => validateMysqlUsername('u'.repeat(32))).not.toThrow();
+        expect(() => validateMysqlUsername('u'.repeat(33))).toThrow('must be at most 32 characters');
+    });
+
+    test('rejects system users', () => {
+        expect(() => validateMysqlUsername('root')).toThrow('is reserved');
+        expect(() => validateMysqlUsername('mysql.sys')).toThrow('is reserved');
+    });
+});
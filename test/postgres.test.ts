@@ -0,0 +1,189 @@
+import * as rdsdata from '@aws-sdk/client-rds-data';
+import * as secretsmanager from '@aws-sdk/client-secrets-manager';
+import * as ssm from '@aws-sdk/client-ssm';
+import { isRetryableConnectionError, LazyPostgresClientFromSecretsManager, Plan, QueryClient, QueryRow, quoteIdentifier, quoteLiteral } from '../handler/postgres';
+
+describe('quoteIdentifier', () => {
+    test('double quotes, doubling any double quotes', () => {
+        expect(quoteIdentifier('app')).toBe('"app"');
+        expect(quoteIdentifier('My App')).toBe('"My App"');
+        expect(quoteIdentifier('a"b')).toBe('"a""b"');
+        expect(quoteIdentifier('x"; DROP DATABASE app; --')).toBe('"x""; DROP DATABASE app; --"');
+    });
+});
+
+describe('quoteLiteral', () => {
+    test('single quotes, doubling any single quotes', () => {
+        expect(quoteLiteral('secret')).toBe("'secret'");
+        expect(quoteLiteral("it's")).toBe("'it''s'");
+        expect(quoteLiteral("'; DROP USER app; --")).toBe("'''; DROP USER app; --'");
+    });
+
+    test('uses the E form with backslashes', () => {
+        expect(quoteLiteral('a\\b')).toBe("E'a\\\\b'");
+        expect(quoteLiteral("a\\'b")).toBe("E'a\\\\''b'");
+    });
+});
+
+describe('Plan', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('records statements with passwords redacted', async () => {
+        const plan = new Plan();
+        await plan.record(`CREATE USER "app" WITH PASSWORD ${quoteLiteral("it's")} CREATEDB LOGIN;`);
+        await plan.record(`ALTER USER "app" WITH PASSWORD ${quoteLiteral('a\\b')};`);
+        await plan.record('ALTER USER "app" WITH PASSWORD NULL;');
+        plan.add('-- A note');
+        expect(plan.statements).toEqual([
+            `CREATE USER "app" WITH PASSWORD '[redacted]' CREATEDB LOGIN;`,
+            `ALTER USER "app" WITH PASSWORD '[redacted]';`,
+            'ALTER USER "app" WITH PASSWORD NULL;',
+            '-- A note',
+        ]);
+    });
+
+    test('fails to create a role or database that exists in the catalog, as Postgres would', async () => {
+        const plan = new Plan();
+        // A catalog with only the database app
+        const catalogClient: QueryClient = {
+            query: async <R extends QueryRow>(text: string, values?: unknown[]) => ({ rows: (text.includes('pg_database') && values?.[0] === 'app' ? [{}] : []) as R[] }),
+        };
+        plan.useCatalogClient(catalogClient);
+        await plan.record('CREATE USER "app" WITH PASSWORD NULL;');
+        await expect(plan.record('CREATE DATABASE "app";')).rejects.toMatchObject({ code: '42P04' });
+        await expect(plan.record('CREATE USER "app" WITH PASSWORD NULL;')).rejects.toMatchObject({ code: '42710' });
+        expect(plan.statements).toEqual(['CREATE USER "app" WITH PASSWORD NULL;']);
+    });
+
+    test('keeps track of the roles and databases it drops and renames', async () => {
+        const plan = new Plan();
+        await plan.record('DROP DATABASE IF EXISTS "old";');
+        await plan.record('ALTER ROLE "app" RENAME TO "app2";');
+        expect(plan.getPlannedDatabaseExists('old')).toBe(false);
+        expect(plan.getPlannedDatabaseExists('other')).toBeUndefined();
+        expect(plan.isChanged('app', 'other')).toBe(true);
+        expect(plan.isChanged('app2', 'other')).toBe(true);
+        expect(plan.isChanged('someone', 'other')).toBe(false);
+        await plan.record('CREATE DATABASE "old";');
+        expect(plan.getPlannedDatabaseExists('old')).toBe(true);
+    });
+});
+
+describe('isRetryableConnectionError', () => {
+    test('retries errors connecting that may go away, but not others', () => {
+        expect(isRetryableConnectionError(Object.assign(new Error('connect ECONNREFUSED 10.0.0.1:5432'), { code: 'ECONNREFUSED' }))).toBe(true);
+        expect(isRetryableConnectionError(Object.assign(new Error('the database system is starting up'), { code: '57P03' }))).toBe(true);
+        expect(isRetryableConnectionError(Object.assign(new Error('Cluster is resuming'), { name: 'DatabaseResumingException' }))).toBe(true);
+        expect(isRetryableConnectionError(new Error('timeout expired'))).toBe(true);
+        expect(isRetryableConnectionError(new Error('Connection terminated unexpectedly'))).toBe(true);
+        expect(isRetryableConnectionError(Object.assign(new Error('password authentication failed for user "app"'), { code: '28P01' }))).toBe(false);
+        expect(isRetryableConnectionError(new Error('syntax error'))).toBe(false);
+    });
+});
+
+describe('LazyPostgresClientFromSecretsManager', () => {
+    const props = {
+        dbSecretArn: 'arn:aws:secretsmanager:eu-west-1:123456789012:secret:admin',
+        dbClusterHostname: 'cluster.example.com',
+        dbClusterPort: 5432,
+        databaseName: 'app',
+    };
+    const dataApiResourceArn = 'arn:aws:rds:eu-west-1:123456789012:cluster:app';
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('has getters for its props', () => {
+        const clientManager = new LazyPostgresClientFromSecretsManager(props);
+        expect(clientManager.dbSecretArn).toBe(props.dbSecretArn);
+        expect(clientManager.dbClusterHostname).toBe('cluster.example.com');
+        expect(clientManager.dbClusterPort).toBe(5432);
+        expect(clientManager.databaseName).toBe('app');
+    });
+
+    test('reads the credentials from a secret, with the given keys and version stage', async () => {
+        const send = jest
+            .spyOn(secretsmanager.SecretsManagerClient.prototype, 'send')
+            .mockImplementation(async () => ({ SecretString: JSON.stringify({ user: 'admin', password: 'admin-password' }) }));
+        const clientManager = new LazyPostgresClientFromSecretsManager({ ...props, credentialsFormat: { store: 'SecretsManager', usernameKey: 'user', versionStage: 'AWSPENDING' } });
+        expect(await clientManager.getCredentials()).toEqual({ username: 'admin', password: 'admin-password' });
+        expect(jest.mocked(send).mock.calls[0][0].input).toEqual({ SecretId: props.dbSecretArn, VersionStage: 'AWSPENDING' });
+    });
+
+    test('reads a plaintext password from an SSM parameter', async () => {
+        const send = jest.spyOn(ssm.SSMClient.prototype, 'send').mockImplementation(async () => ({ Parameter: { Value: 'admin-password' } }));
+        const clientManager = new LazyPostgresClientFromSecretsManager({ ...props, dbSecretArn: '/app/admin', credentialsFormat: { store: 'SsmParameter', plaintextUsername: 'admin' } });
+        expect(await clientManager.getCredentials()).toEqual({ username: 'admin', password: 'admin-password' });
+        expect(jest.mocked(send).mock.calls[0][0].input).toEqual({ Name: '/app/admin', WithDecryption: true });
+
+        send.mockImplementation(async () => ({}));
+        const emptyClientManager = new LazyPostgresClientFromSecretsManager({ ...props, dbSecretArn: '/app/empty', credentialsFormat: { store: 'SsmParameter', plaintextUsername: 'admin' } });
+        await expect(emptyClientManager.getCredentials()).rejects.toThrow('Parameter /app/empty has no value');
+    });
+
+    test('runs queries with the Data API, in a transaction between BEGIN and COMMIT or ROLLBACK', async () => {
+        const send = jest.spyOn(rdsdata.RDSDataClient.prototype, 'send').mockImplementation(async (command) => {
+            if (command instanceof rdsdata.BeginTransactionCommand) {
+                return { transactionId: 'transaction-id' };
+            }
+            return command instanceof rdsdata.ExecuteStatementCommand ? { formattedRecords: JSON.stringify([{ exists: true }]) } : {};
+        });
+        const client = await new LazyPostgresClientFromSecretsManager({ ...props, dataApiResourceArn }).getClient();
+
+        await client.query('BEGIN;');
+        expect(await client.query('SELECT $1, $2, $3, $4, $5;', [null, true, 1, 1.5, 'app'])).toEqual({ rows: [{ exists: true }] });
+        await client.query('COMMIT;');
+        await client.query('BEGIN;');
+        await client.query('ROLLBACK;');
+        await client.query('SELECT 1;');
+
+        const inputs = jest.mocked(send).mock.calls.map(([command]) => command.input);
+        expect(inputs[1]).toEqual({
+            resourceArn: dataApiResourceArn,
+            secretArn: props.dbSecretArn,
+            database: 'app',
+            sql: 'SELECT :p1, :p2, :p3, :p4, :p5;',
+            parameters: [
+                { name: 'p1', value: { isNull: true } },
+                { name: 'p2', value: { booleanValue: true } },
+                { name: 'p3', value: { longValue: 1 } },
+                { name: 'p4', value: { doubleValue: 1.5 } },
+                { name: 'p5', value: { stringValue: 'app' } },
+            ],
+            formatRecordsAs: 'JSON',
+            transactionId: 'transaction-id',
+        });
+        expect(jest.mocked(send).mock.calls[2][0]).toBeInstanceOf(rdsdata.CommitTransactionCommand);
+        expect(inputs[2]).toMatchObject({ transactionId: 'transaction-id' });
+        expect(jest.mocked(send).mock.calls[4][0]).toBeInstanceOf(rdsdata.RollbackTransactionCommand);
+        expect(inputs[5]).toMatchObject({ sql: 'SELECT 1;', transactionId: undefined });
+    });
+
+    test('retries the Data API while the cluster resumes, and reports its errors as Postgres errors', async () => {
+        const send = jest
+            .spyOn(rdsdata.RDSDataClient.prototype, 'send')
+            .mockImplementationOnce(async () => {
+                throw Object.assign(new Error('The cluster is resuming'), { name: 'DatabaseResumingException' });
+            })
+            .mockImplementationOnce(async () => ({}))
+            .mockImplementationOnce(async () => {
+                throw new Error('ERROR: role "app" already exists; SQLState: 42710');
+            });
+        const client = await new LazyPostgresClientFromSecretsManager({ ...props, dataApiResourceArn, connectionTimeoutSeconds: 5 }).getClient();
+
+        expect(await client.query('SELECT 1;')).toEqual({ rows: [] });
+        expect(send).toHaveBeenCalledTimes(2);
+        await expect(client.query('CREATE USER "app";')).rejects.toMatchObject({ code: '42710' });
+    });
+});